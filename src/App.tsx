@@ -1,32 +1,125 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActionButton } from './components/ActionButton';
+import { AddRowForm, NewRowInput } from './components/AddRowForm';
+import { AttemptInfo, CooldownBadge, OfflineBadge, StatusBadge, TabRoleBadge } from './components/Badges';
+import { BulkActionBar } from './components/BulkActionBar';
+import { CommandPalette, ShortcutOverlay } from './components/CommandPalette';
+import { DuplicatesPanel } from './components/DuplicatesPanel';
+import { FailureReasonDialog } from './components/FailureReasonDialog';
+import { FocusView } from './components/FocusView';
+import { HistoryPanel } from './components/HistoryPanel';
+import { GroupRules, GroupRulesPatch } from './components/GroupRules';
+import { ImportConflicts } from './components/ImportConflicts';
+import { ImportPreview } from './components/ImportPreview';
+import { ImportReport, ImportReportPanel } from './components/ImportReportPanel';
+import { PostCheckDialog } from './components/PostCheckDialog';
+import { RetryPanel } from './components/RetryPanel';
+import { DeleteRowButton, DragHandle, LintWarnings, RowCheckbox, SelectAllCheckbox } from './components/RowControls';
+import { SettingsPanel } from './components/SettingsPanel';
+import { StatsPanel } from './components/StatsPanel';
+import { RowTemplate, TemplatePanel } from './components/TemplatePanel';
 import { ToastProvider, useToast } from './components/Toast';
+import { WorkspaceBar } from './components/WorkspaceBar';
+import { createBackup, parseBackup } from './lib/backup';
+import { replaceInPosts, selectRange } from './lib/bulk';
 import { copyText } from './lib/clipboard';
-import { ParsedCsvRow, parseCsvRows } from './lib/csv';
+import { Command } from './lib/commands';
+import { buildPostIndex, cooldownUntil } from './lib/cooldown';
+import { loadColumnMapping, saveColumnMapping } from './lib/columnMappings';
+import {
+  createCsv,
+  CsvColumnMapping,
+  CsvTable,
+  detectColumnMapping,
+  headerSignature,
+  mapCsvTable,
+  ParsedCsvRow,
+  readCsvTable,
+} from './lib/csv';
 import { createId } from './lib/id';
-import { loadState, saveState } from './lib/storage';
+import { ImportOptions, ImportPlan, makeMergeKey, planImport, resolveImport } from './lib/importMerge';
+import { describeFailure, getRowFailure } from './lib/failures';
+import { needsFollowUp, unresolvedOpenAt } from './lib/followUp';
+import { EMPTY_POST_RULE_ID, LintIssue, lintPost } from './lib/postLint';
+import {
+  formatCountdown,
+  getPacingStatus,
+  loadPacing,
+  pacingOverrun,
+  PacingState,
+  PacingStatus,
+  recordPost,
+  removePost,
+  startPacingSession,
+  subscribePacing,
+  updatePacing,
+} from './lib/pacing';
+import { QueueAction, QueueContext, queueReducer, stepCurrentId } from './lib/queue';
+import { AppSettings, loadSettings, saveSettings } from './lib/settings';
+import { createEmptySession } from './lib/storage';
 import { SAMPLE_CSV, SAMPLE_CSV_ROW_COUNT } from './lib/sampleCsv';
-import { RowHistoryEntry, RowStatusKind } from './lib/types';
-
-interface QueueRow {
-  id: string;
-  name: string;
-  url: string;
-  ad: string;
-  status: RowStatusKind;
-  history: RowHistoryEntry[];
-  lastChangedAt?: string;
-  undoExpiresAt?: number;
+import { createTemplate, RenderedPost, renderRowPost } from './lib/templates';
+import {
+  AppState,
+  PostCheckAnswer,
+  PostTemplate,
+  QueueRow,
+  RowFilter,
+  RowHistoryEntry,
+  RowStatusKind,
+  SessionState,
+} from './lib/types';
+import { isValidHttpUrl, normalizeGroupUrl } from './lib/url';
+import { useKeyboardShortcuts } from './lib/useKeyboardShortcuts';
+import { useRowDrag } from './lib/useRowDrag';
+import { RecordOptions, useUndoHistory } from './lib/useUndoHistory';
+import { useOnlineStatus } from './lib/useOnlineStatus';
+import { usePersistentSession } from './lib/usePersistentSession';
+import { useServiceWorker } from './lib/useServiceWorker';
+import { useTabSync } from './lib/useTabSync';
+import { useTabReturn } from './lib/useTabReturn';
+import {
+  addWorkspace,
+  archiveWorkspace,
+  deleteWorkspace,
+  duplicateWorkspace,
+  getActiveWorkspace,
+  renameWorkspace,
+  switchWorkspace,
+  updateActiveWorkspace,
+} from './lib/workspaces';
+
+interface PendingImport {
+  fileName: string;
+  table: CsvTable;
+  mapping: CsvColumnMapping;
+  remembered: boolean;
 }
 
-interface AppState {
-  rows: QueueRow[];
-  currentId: string | null;
-  filter: 'all' | RowStatusKind;
-  search: string;
+interface PendingConflicts {
+  plan: ImportPlan;
+  report: ImportReport;
 }
 
-const STORAGE_KEY = 'paste-happy-session-v3';
-const UNDO_DURATION_MS = 16000;
+const ROW_FILTERS: RowFilter[] = ['all', 'pending', 'posted', 'skipped', 'failed', 'follow-up'];
+
+const FILTER_LABELS: Record<RowFilter, string> = {
+  all: 'All',
+  pending: 'Pending',
+  posted: 'Posted',
+  skipped: 'Skipped',
+  failed: 'Failed',
+  'follow-up': 'Follow-up',
+};
+
+const FOLLOW_UP_CHECK_MS = 60 * 1000;
+
+const STATUS_ACTION_LABELS: Record<RowStatusKind, string> = {
+  pending: 'Mark pending',
+  posted: 'Mark posted',
+  skipped: 'Skip',
+  failed: 'Mark failed',
+};
 
 const FACEBOOK_GROUPS_SCANNER_SCRIPT_PATH = '/userscripts/facebook-groups-discover-export.user.js';
 
@@ -78,17 +171,75 @@ const TUTORIAL_SECTIONS: TutorialSection[] = [
 function InnerApp() {
   const { push } = useToast();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
-  const undoTimers = useRef<Record<string, number>>({});
+  const backupInputRef = useRef<HTMLInputElement | null>(null);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const [overlay, setOverlay] = useState<'help' | 'palette' | 'history' | 'stats' | null>(null);
+  const [focusMode, setFocusMode] = useState(false);
+  const [failingRowId, setFailingRowId] = useState<string | null>(null);
+  /** True while the failure dialog was opened from "Did it post?", so confirming it answers the prompt. */
+  const [failingFromCheck, setFailingFromCheck] = useState(false);
+  const [checkRowId, setCheckRowId] = useState<string | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [pendingConflicts, setPendingConflicts] = useState<PendingConflicts | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const selectionAnchor = useRef<string | null>(null);
+
+  const [session, setSession] = useState<SessionState>(createEmptySession);
+  const persistence = usePersistentSession(session, setSession);
+  const tabSync = useTabSync(session, setSession, persistence.hydrated);
+  const serviceWorker = useServiceWorker();
+  const online = useOnlineStatus();
+  const state = getActiveWorkspace(session);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
 
-  const [state, setState] = useState<AppState>(() =>
-    typeof window !== 'undefined'
-      ? loadState<AppState>(STORAGE_KEY, { rows: [], currentId: null, filter: 'all', search: '' })
-      : { rows: [], currentId: null, filter: 'all', search: '' }
-  );
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  const [pacing, setPacing] = useState<PacingState>(loadPacing);
+  const [pacingTick, setPacingTick] = useState(0);
+
+  // Pacing is read and written straight through storage, so every tab counts towards the same limits.
+  useEffect(() => subscribePacing(setPacing), []);
+
+  // `pacingTick` re-evaluates the limits once per second while a countdown is running.
+  const pacingStatus = useMemo(() => getPacingStatus(pacing, settings), [pacing, settings, pacingTick]);
 
   useEffect(() => {
-    saveState(STORAGE_KEY, state);
-  }, [state]);
+    if (pacingStatus.until === null) return;
+    const timer = window.setInterval(() => setPacingTick((tick) => tick + 1), 1000);
+    return () => clearInterval(timer);
+  }, [pacingStatus.until]);
+
+  // Posts made from other workspaces count towards a group's cooldown too.
+  const externalPostIndex = useMemo(
+    () =>
+      buildPostIndex(session.workspaces.filter((workspace) => workspace.id !== state.id).flatMap((workspace) => workspace.rows)),
+    [session.workspaces, state.id]
+  );
+  const cooldownContext = useRef({ index: externalPostIndex, days: settings.cooldownDays });
+  cooldownContext.current = { index: externalPostIndex, days: settings.cooldownDays };
+
+  const postIndex = useMemo(() => buildPostIndex(state.rows, externalPostIndex), [externalPostIndex, state.rows]);
+  const lintOptions = useMemo(() => ({ maxLength: settings.maxPostLength }), [settings.maxPostLength]);
+
+  const setState = useCallback((updater: (prev: AppState) => AppState) => {
+    setSession((prev) => updateActiveWorkspace(prev, updater));
+  }, []);
+
+  const { stack: undoStack, record, undo, redo } = useUndoHistory(state, setState);
+
+  const handleWorkspaceChange = useCallback(
+    (transition: (prev: SessionState) => SessionState) => {
+      setImportReport(null);
+      setPendingConflicts(null);
+      setCheckRowId(null);
+      setSelectedIds(new Set());
+      setSession(transition);
+    },
+    []
+  );
 
   const currentRow = useMemo(() => state.rows.find((row) => row.id === state.currentId), [state.currentId, state.rows]);
 
@@ -102,140 +253,215 @@ function InnerApp() {
     );
   }, [state.rows]);
 
+  // Advances once a minute so rows move into Follow-up without another state change.
+  const [clock, setClock] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setClock(Date.now()), FOLLOW_UP_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const followUpIds = useMemo(
+    () => new Set(state.rows.filter((row) => needsFollowUp(row, settings.followUpMinutes, clock)).map((row) => row.id)),
+    [clock, settings.followUpMinutes, state.rows]
+  );
+
   const total = state.rows.length;
   const filteredRows = useMemo(() => {
     const query = state.search.trim().toLowerCase();
     return state.rows.filter((row) => {
-      const matchesFilter = state.filter === 'all' ? true : row.status === state.filter;
+      const matchesFilter =
+        state.filter === 'all' ? true : state.filter === 'follow-up' ? followUpIds.has(row.id) : row.status === state.filter;
       const matchesSearch = !query || `${row.name} ${row.url}`.toLowerCase().includes(query);
       return matchesFilter && matchesSearch;
     });
-  }, [state.filter, state.rows, state.search]);
+  }, [followUpIds, state.filter, state.rows, state.search]);
+
+  const visibleRows = useMemo(
+    () =>
+      filteredRows.map((row) => {
+        const rendered = renderRowPost(row, state.templates);
+        return { row, rendered, lintIssues: lintPost({ ...row, ad: rendered.text }, lintOptions) };
+      }),
+    [filteredRows, lintOptions, state.templates]
+  );
 
-  const setCurrentToFirstPending = useCallback(
-    (rows: QueueRow[]): string | null => {
-      const pendingRow = rows.find((row) => row.status === 'pending');
-      return pendingRow ? pendingRow.id : rows[0]?.id ?? null;
+  /** Runs a queue action on the active workspace; `label` puts the change on the undo stack. */
+  const dispatch = useCallback(
+    (action: QueueAction, label?: string, options?: RecordOptions) => {
+      if (label) record(label, options);
+      const context: QueueContext = {
+        cooldownDays: cooldownContext.current.days,
+        externalIndex: cooldownContext.current.index,
+      };
+      setState((prev) => queueReducer(prev, action, context));
     },
-    []
+    [record, setState]
   );
 
-  const updateRow = useCallback((id: string, updater: (row: QueueRow) => QueueRow) => {
-    setState((prev) => ({
-      ...prev,
-      rows: prev.rows.map((row) => (row.id === id ? updater(row) : row)),
-    }));
-  }, []);
-
-  const clearUndoTimer = useCallback((id: string) => {
-    const timer = undoTimers.current[id];
-    if (timer) {
-      clearTimeout(timer);
-      delete undoTimers.current[id];
-    }
-  }, []);
-
-  const scheduleUndoExpiry = useCallback(
-    (id: string) => {
-      clearUndoTimer(id);
-      const timer = window.setTimeout(() => {
-        setState((prev) => ({
-          ...prev,
-          rows: prev.rows.map((row) => (row.id === id ? { ...row, undoExpiresAt: undefined } : row)),
-        }));
-        delete undoTimers.current[id];
-      }, UNDO_DURATION_MS);
-      undoTimers.current[id] = timer;
-    },
-    [clearUndoTimer]
-  );
-
-  const findNextPendingId = useCallback(
-    (rows: QueueRow[], afterId?: string | null): string | null => {
-      if (!rows.length) return null;
-      const pendingIds = rows.filter((row) => row.status === 'pending').map((row) => row.id);
-      if (!pendingIds.length) return null;
-      const startIndex = afterId ? rows.findIndex((row) => row.id === afterId) : -1;
-      for (let offset = 1; offset <= rows.length; offset += 1) {
-        const idx = (startIndex + offset) % rows.length;
-        const candidate = rows[idx];
-        if (candidate && candidate.status === 'pending') return candidate.id;
-      }
-      return pendingIds[0] ?? null;
+  /** Edits one row; keystrokes in the same field coalesce into a single undo entry via `field`. */
+  const updateRow = useCallback(
+    (id: string, label: string, field: string, patch: Partial<Omit<QueueRow, 'id'>>) => {
+      dispatch({ type: 'updateRow', id, patch }, label, { coalesceKey: `${id}:${field}` });
     },
-    []
+    [dispatch]
   );
 
   const setRowStatus = useCallback(
-    (id: string, status: RowStatusKind, advance = true) => {
+    (id: string, status: RowStatusKind, advance = true, note?: string) => {
       const now = new Date().toISOString();
-      setState((prev) => {
-        const rows = prev.rows.map((row) => {
-          if (row.id !== id) return row;
-          return {
-            ...row,
-            status,
-            lastChangedAt: now,
-            undoExpiresAt: Date.now() + UNDO_DURATION_MS,
-            history: [...row.history, { action: status, at: now }],
-          };
-        });
-        const nextId = advance ? findNextPendingId(rows, id) : prev.currentId ?? id;
-        return { ...prev, rows, currentId: nextId };
+      dispatch({ type: 'setStatus', id, status, at: now, note, advance }, STATUS_ACTION_LABELS[status], {
+        posted: status === 'posted' ? [now] : undefined,
       });
-      scheduleUndoExpiry(id);
+      if (status === 'posted') setPacing(updatePacing((prev) => recordPost(prev, now)));
     },
-    [findNextPendingId, scheduleUndoExpiry]
+    [dispatch]
   );
 
-  const handleUndo = useCallback(
-    (row: QueueRow) => {
-      clearUndoTimer(row.id);
+  const answerPostCheck = useCallback(
+    (id: string, answer: PostCheckAnswer, note?: string) => {
       const now = new Date().toISOString();
-      setState((prev) => ({
-        ...prev,
-        rows: prev.rows.map((item) =>
-          item.id === row.id
-            ? {
-                ...item,
-                status: 'pending',
-                undoExpiresAt: undefined,
-                lastChangedAt: now,
-                history: [...item.history, { action: 'pending', at: now, note: 'undo' }],
-              }
-            : item
-        ),
-        currentId: row.id,
-      }));
-    },
-    [clearUndoTimer]
+      dispatch(
+        { type: 'answerPostCheck', id, answer, at: now, note },
+        answer === 'not-yet' ? undefined : STATUS_ACTION_LABELS[answer],
+        { posted: answer === 'posted' ? [now] : undefined }
+      );
+      if (answer === 'posted') setPacing(updatePacing((prev) => recordPost(prev, now)));
+    },
+    [dispatch]
   );
 
-  const handleCopyAndOpen = useCallback(
-    async (row: QueueRow) => {
-      if (!row.ad.trim()) {
-        push('Add post text before copying.', 'error');
+  const expectReturn = useTabReturn<string>(setCheckRowId);
+
+  const handleUndo = useCallback(
+    (steps = 1) => {
+      const entries = undo(steps);
+      if (!entries.length) {
+        push('Nothing to undo.', 'info');
+        return;
+      }
+      const posted = entries.flatMap((entry) => entry.posted ?? []);
+      if (posted.length) setPacing(updatePacing((prev) => posted.reduce(removePost, prev)));
+      push(entries.length === 1 ? `Undid ${entries[0].label.toLowerCase()}.` : `Undid ${entries.length} changes.`, 'info');
+    },
+    [push, undo]
+  );
+
+  const handleRedo = useCallback(
+    (steps = 1) => {
+      const entries = redo(steps);
+      if (!entries.length) {
+        push('Nothing to redo.', 'info');
         return;
       }
+      const posted = entries.flatMap((entry) => entry.posted ?? []);
+      if (posted.length) setPacing(updatePacing((prev) => posted.reduce(recordPost, prev)));
+      push(entries.length === 1 ? `Redid ${entries[0].label.toLowerCase()}.` : `Redid ${entries.length} changes.`, 'info');
+    },
+    [push, redo]
+  );
+
+  /** Runs the pre-copy checks and copies the post; resolves to the copy event, or null when a check stopped it. */
+  const copyRowPost = useCallback(
+    async (row: QueueRow): Promise<RowHistoryEntry | null> => {
+      const rendered = renderRowPost(row, state.templates);
+      if (rendered.missing.length) {
+        push(`Fill in ${rendered.missing.map((name) => `{{${name}}}`).join(', ')} before copying.`, 'error');
+        return null;
+      }
+      if (!rendered.text.trim()) {
+        push('Add post text before copying.', 'error');
+        return null;
+      }
+
+      const pacingMessage = describePacingBlock(pacingStatus);
+      if (pacingMessage) {
+        push(pacingMessage, 'error');
+        return null;
+      }
 
-      const result = await copyText(row.ad);
+      const issues = lintPost({ ...row, ad: rendered.text }, lintOptions).filter((issue) => issue.ruleId !== EMPTY_POST_RULE_ID);
+      if (
+        issues.length &&
+        !window.confirm(
+          `Check this post before copying:\n\n${issues.map((issue) => `• ${issue.message}`).join('\n')}\n\nCopy anyway?`
+        )
+      ) {
+        return null;
+      }
+
+      const blockedUntil = cooldownUntil(row, postIndex, settings.cooldownDays);
+      if (
+        blockedUntil !== null &&
+        !window.confirm(
+          `${row.name || 'This group'} was posted to recently and is cooling down until ${new Date(
+            blockedUntil
+          ).toLocaleString()}. Post anyway?`
+        )
+      ) {
+        return null;
+      }
+
+      const result = await copyText(rendered.text);
       if (result.success) {
         push('Post text copied.', 'success');
       } else {
         push('Copy failed. Please copy manually.', 'error');
       }
+      return { action: 'copied', at: new Date().toISOString(), copyMethod: result.method, copySucceeded: result.success };
+    },
+    [lintOptions, pacingStatus, postIndex, push, settings.cooldownDays, state.templates]
+  );
 
-      setState((prev) => ({ ...prev, currentId: row.id }));
-
+  /** Opens the group in a new tab; resolves to the open event, or null when the URL can't be opened. */
+  const openRowUrl = useCallback(
+    (row: QueueRow): RowHistoryEntry | null => {
       if (isValidHttpUrl(row.url)) {
         window.open(row.url, '_blank', 'noopener,noreferrer');
-      } else if (row.url.trim()) {
-        push('URL must start with http:// or https://', 'error');
+        return { action: 'opened', at: new Date().toISOString() };
       }
+      if (row.url.trim()) push('URL must start with http:// or https://', 'error');
+      return null;
     },
     [push]
   );
 
+  const handleCopyAndOpen = useCallback(
+    async (row: QueueRow) => {
+      const copied = await copyRowPost(row);
+      if (!copied) return;
+      const opened = openRowUrl(row);
+      dispatch({ type: 'recordEvents', id: row.id, events: opened ? [copied, opened] : [copied] });
+      if (opened) expectReturn(row.id);
+    },
+    [copyRowPost, dispatch, expectReturn, openRowUrl]
+  );
+
+  const handleCopyOnly = useCallback(
+    async (row: QueueRow) => {
+      const copied = await copyRowPost(row);
+      if (copied) dispatch({ type: 'recordEvents', id: row.id, events: [copied] });
+    },
+    [copyRowPost, dispatch]
+  );
+
+  const handleOpenOnly = useCallback(
+    (row: QueueRow) => {
+      if (!row.url.trim()) {
+        push('Add a group URL first.', 'error');
+        return;
+      }
+      const opened = openRowUrl(row);
+      if (opened) dispatch({ type: 'recordEvents', id: row.id, events: [opened] });
+    },
+    [dispatch, openRowUrl, push]
+  );
+
+  const handleNewPacingSession = useCallback(() => {
+    setPacing(updatePacing((prev) => startPacingSession(prev)));
+    push('Started a new posting session.', 'success');
+  }, [push]);
+
   const handleSkip = useCallback(
     (row: QueueRow) => {
       setRowStatus(row.id, 'skipped');
@@ -252,128 +478,532 @@ function InnerApp() {
     [push, setRowStatus]
   );
 
-  const handleShuffle = useCallback(() => {
-    setState((prev) => {
-      const pendingRows = prev.rows.filter((row) => row.status === 'pending');
-      const shuffled = shuffleArray(pendingRows);
-      const nextRows: QueueRow[] = [];
-      let pendingIndex = 0;
-      prev.rows.forEach((row) => {
-        if (row.status === 'pending') {
-          nextRows.push(shuffled[pendingIndex]);
-          pendingIndex += 1;
-        } else {
-          nextRows.push(row);
-        }
-      });
+  const handleFailed = useCallback((row: QueueRow) => {
+    setFailingFromCheck(false);
+    setFailingRowId(row.id);
+  }, []);
 
-      const nextCurrent = prev.currentId && nextRows.some((row) => row.id === prev.currentId)
-        ? prev.currentId
-        : setCurrentToFirstPending(nextRows);
+  const handleConfirmFailed = useCallback(
+    (note: string) => {
+      if (!failingRowId) return;
+      if (failingFromCheck) {
+        answerPostCheck(failingRowId, 'failed', note);
+      } else {
+        setRowStatus(failingRowId, 'failed', true, note);
+      }
+      setFailingRowId(null);
+      setFailingFromCheck(false);
+      push(`Marked as failed: ${note}.`, 'info');
+    },
+    [answerPostCheck, failingFromCheck, failingRowId, push, setRowStatus]
+  );
 
-      return { ...prev, rows: nextRows, currentId: nextCurrent };
-    });
+  const handleCancelFailed = useCallback(() => {
+    // Backing out of the reason goes back to "Did it post?" rather than dropping the question.
+    if (failingFromCheck) setCheckRowId(failingRowId);
+    setFailingRowId(null);
+    setFailingFromCheck(false);
+  }, [failingFromCheck, failingRowId]);
+
+  // Rows marked some other way since the Copy & Open (e.g. from the list) no longer need asking about.
+  const checkRow = useMemo(() => {
+    const row = checkRowId ? state.rows.find((item) => item.id === checkRowId) : undefined;
+    return row && unresolvedOpenAt(row) !== null ? row : null;
+  }, [checkRowId, state.rows]);
+
+  const handlePostCheckAnswer = useCallback(
+    (answer: Exclude<PostCheckAnswer, 'failed'>) => {
+      if (!checkRowId) return;
+      answerPostCheck(checkRowId, answer);
+      setCheckRowId(null);
+      if (answer === 'posted') push('Marked as posted.', 'success');
+      if (answer === 'skipped') push('Marked as skipped.', 'info');
+    },
+    [answerPostCheck, checkRowId, push]
+  );
+
+  const handlePostCheckFailed = useCallback(() => {
+    setFailingFromCheck(true);
+    setFailingRowId(checkRowId);
+    setCheckRowId(null);
+  }, [checkRowId]);
+
+  const handleRequeue = useCallback(
+    (ids: string[]) => {
+      if (!ids.length) return;
+      dispatch({ type: 'requeue', ids, at: new Date().toISOString() }, 'Requeue failed rows');
+      push(`Requeued ${ids.length} row${ids.length === 1 ? '' : 's'}.`, 'success');
+    },
+    [dispatch, push]
+  );
+
+  const failingRow = useMemo(
+    () => (failingRowId ? state.rows.find((row) => row.id === failingRowId) ?? null : null),
+    [failingRowId, state.rows]
+  );
+
+  const handleStep = useCallback(
+    (direction: 1 | -1) => {
+      const visibleIds = filteredRows.map((row) => row.id);
+      dispatch({ type: 'step', visibleIds, direction });
+      const nextId = stepCurrentId(visibleIds, state.currentId, direction);
+      if (nextId) window.requestAnimationFrame(() => scrollRowIntoView(nextId));
+    },
+    [dispatch, filteredRows, state.currentId]
+  );
+
+  const handleShuffle = useCallback(() => {
+    dispatch({ type: 'shuffle' }, 'Shuffle');
     push('Pending rows shuffled.', 'info');
-  }, [push, setCurrentToFirstPending]);
+  }, [dispatch, push]);
 
-  const handleSearchChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const value = event.target.value;
-    setState((prev) => ({ ...prev, search: value }));
-  }, []);
+  const handleSearchChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => dispatch({ type: 'setSearch', search: event.target.value }),
+    [dispatch]
+  );
 
-  const handleFilterChange = useCallback((filter: 'all' | RowStatusKind) => {
-    setState((prev) => ({ ...prev, filter }));
-  }, []);
+  const handleFilterChange = useCallback((filter: RowFilter) => dispatch({ type: 'setFilter', filter }), [dispatch]);
+
+  const commitImport = useCallback(
+    (rows: QueueRow[], summary: Pick<ImportPlan, 'added' | 'updated' | 'skipped' | 'duplicates' | 'removed'>) => {
+      dispatch({ type: 'replaceRows', rows }, 'Import CSV');
+      const parts = [
+        `${summary.added} added`,
+        `${summary.updated} updated`,
+        summary.skipped ? `${summary.skipped} already queued` : '',
+        summary.duplicates ? `${summary.duplicates} duplicates in file` : '',
+        summary.removed ? `${summary.removed} removed` : '',
+      ].filter(Boolean);
+      push(`Import finished: ${parts.join(', ')}.`, 'success');
+    },
+    [dispatch, push]
+  );
 
   const handleImport = useCallback(
-    (entries: ParsedCsvRow[]) => {
+    (entries: ParsedCsvRow[], options: ImportOptions, report: ImportReport) => {
       if (!entries.length) {
         push('No rows detected in CSV', 'error');
         return;
       }
+      const plan = planImport(state.rows, entries, state.templates, options);
+      if (plan.conflicts.length) {
+        setPendingConflicts({ plan, report });
+        return;
+      }
+      setImportReport(report);
+      commitImport(plan.rows, plan);
+    },
+    [commitImport, push, state.rows, state.templates]
+  );
 
-      setState((prev) => {
-        const keyed = new Map<string, QueueRow>();
-        prev.rows.forEach((row) => {
-          keyed.set(makeMergeKey(row.name, row.url), row);
-        });
-
-        const merged: QueueRow[] = entries.map((entry) => {
-          const key = makeMergeKey(entry.name ?? '', entry.url ?? '');
-          const existing = keyed.get(key);
-          const history = 'history' in entry && Array.isArray((entry as any).history) ? (entry as any).history : [];
-          const status = (entry as any).status as RowStatusKind | undefined;
-          const safeStatus: RowStatusKind = status && ['pending', 'posted', 'skipped', 'failed'].includes(status)
-            ? status
-            : existing?.status ?? 'pending';
-          const id = (entry as any).id ?? existing?.id ?? createId();
-          const lastChangedAt = history.length ? history[history.length - 1].at : existing?.lastChangedAt;
-
-          return {
-            id,
-            name: entry.name ?? existing?.name ?? '',
-            url: entry.url ?? existing?.url ?? '',
-            ad: entry.ad ?? (existing?.ad ?? ''),
-            status: safeStatus,
-            history: history.length ? history : existing?.history ?? [],
-            lastChangedAt,
-          };
-        });
-
-        const nextCurrent = merged.length
-          ? prev.currentId && merged.some((row) => row.id === prev.currentId)
-            ? prev.currentId
-            : setCurrentToFirstPending(merged)
-          : null;
-        return { ...prev, rows: merged, currentId: nextCurrent };
-      });
-
-      push(`Imported ${entries.length} row${entries.length === 1 ? '' : 's'}.`, 'success');
+  const handleResolveConflicts = useCallback(
+    (keepExisting: Set<string>) => {
+      if (!pendingConflicts) return;
+      const { plan, report } = pendingConflicts;
+      setPendingConflicts(null);
+      setImportReport(report);
+      commitImport(resolveImport(plan, keepExisting), plan);
     },
-    [push, setCurrentToFirstPending]
+    [commitImport, pendingConflicts]
   );
 
   const handleCsvFile = useCallback(
     async (file: File) => {
-      const text = await file.text();
-      const parsed = parseCsvRows(text);
-      handleImport(parsed);
+      const table = readCsvTable(await file.text());
+      if (!table.records.length) {
+        push('No rows detected in CSV', 'error');
+        return;
+      }
+      const saved = loadColumnMapping(headerSignature(table.header));
+      setPendingImport({
+        fileName: file.name,
+        table,
+        mapping: saved ?? detectColumnMapping(table.header),
+        remembered: Boolean(saved),
+      });
     },
-    [handleImport]
+    [push]
+  );
+
+  const handleConfirmImport = useCallback(
+    (mapping: CsvColumnMapping, options: ImportOptions) => {
+      if (!pendingImport) return;
+      const { table, fileName } = pendingImport;
+      saveColumnMapping(headerSignature(table.header), mapping);
+      const { rows, ...result } = mapCsvTable(table, mapping);
+      setPendingImport(null);
+      handleImport(rows, options, { ...result, fileName, imported: rows.length });
+    },
+    [handleImport, pendingImport]
   );
 
   const handleDownloadSample = useCallback(() => {
-    const blob = new Blob([SAMPLE_CSV], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const anchor = document.createElement('a');
-    anchor.href = url;
-    anchor.download = 'paste-happy-sample.csv';
-    anchor.click();
-    URL.revokeObjectURL(url);
+    downloadFile('paste-happy-sample.csv', SAMPLE_CSV, 'text/csv');
     push(`Downloaded sample CSV with ${SAMPLE_CSV_ROW_COUNT} example groups.`, 'success');
   }, [push]);
 
+  const handleExportCsv = useCallback(() => {
+    if (!state.rows.length) {
+      push('Nothing to export yet.', 'error');
+      return;
+    }
+    downloadFile(`${fileSlug(state.name)}-${fileTimestamp()}.csv`, createCsv(state.rows, state.templates), 'text/csv');
+    push(`Exported ${state.rows.length} row${state.rows.length === 1 ? '' : 's'} to CSV.`, 'success');
+  }, [push, state.name, state.rows, state.templates]);
+
+  const handleExportStats = useCallback(
+    (table: string, csv: string) => {
+      downloadFile(`${fileSlug(state.name)}-stats-${table}-${fileTimestamp()}.csv`, csv, 'text/csv');
+      push('Stats exported.', 'success');
+    },
+    [push, state.name]
+  );
+
+  const handleExportBackup = useCallback(() => {
+    if (!state.rows.length) {
+      push('Nothing to back up yet.', 'error');
+      return;
+    }
+    downloadFile(
+      `${fileSlug(state.name)}-backup-${fileTimestamp()}.json`,
+      createBackup(state.rows, state.currentId, state.templates),
+      'application/json'
+    );
+    push('Backup downloaded.', 'success');
+  }, [push, state.currentId, state.name, state.rows, state.templates]);
+
+  const handleBackupFile = useCallback(
+    async (file: File) => {
+      try {
+        const backup = parseBackup(await file.text());
+        dispatch(
+          { type: 'restore', rows: backup.rows.map((row) => ({ ...row })), currentId: backup.currentId, templates: backup.templates },
+          'Restore backup'
+        );
+        push(`Restored ${backup.rows.length} row${backup.rows.length === 1 ? '' : 's'} from backup.`, 'success');
+      } catch (error) {
+        push(error instanceof Error ? error.message : 'Could not restore backup.', 'error');
+      }
+    },
+    [dispatch, push]
+  );
+
   const handlePostEdit = useCallback((id: string, ad: string) => {
-    updateRow(id, (row) => ({ ...row, ad }));
+    updateRow(id, 'Edit post text', 'ad', { ad });
   }, [updateRow]);
 
+  const handleRulesChange = useCallback((id: string, patch: GroupRulesPatch) => {
+    updateRow(id, 'Edit group rules', 'rules', patch);
+  }, [updateRow]);
+
+  const handleTemplateChange = useCallback((id: string, patch: Pick<QueueRow, 'templateId' | 'fields'>) => {
+    updateRow(id, 'Edit template fields', 'template', patch);
+  }, [updateRow]);
+
+  const handleCreateTemplate = useCallback(
+    (name: string) => {
+      const template = createTemplate(name);
+      dispatch({ type: 'addTemplate', template }, 'Create template');
+      push(`Created template "${template.name}".`, 'success');
+    },
+    [dispatch, push]
+  );
+
+  const handleUpdateTemplate = useCallback((template: PostTemplate) => {
+    dispatch({ type: 'updateTemplate', template }, 'Edit template', { coalesceKey: `template:${template.id}` });
+  }, [dispatch]);
+
+  const handleDeleteTemplate = useCallback(
+    (id: string) => {
+      dispatch({ type: 'deleteTemplate', id }, 'Delete template');
+      push('Template deleted.', 'info');
+    },
+    [dispatch, push]
+  );
+
+  const handleToggleSelect = useCallback(
+    (id: string, range: boolean) => {
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        const anchor = selectionAnchor.current;
+        if (range && anchor) {
+          const select = !prev.has(id);
+          selectRange(
+            filteredRows.map((row) => row.id),
+            anchor,
+            id
+          ).forEach((rangeId) => (select ? next.add(rangeId) : next.delete(rangeId)));
+        } else if (next.has(id)) {
+          next.delete(id);
+        } else {
+          next.add(id);
+        }
+        return next;
+      });
+      selectionAnchor.current = id;
+    },
+    [filteredRows]
+  );
+
+  // Rows can disappear through imports and backup restores; drop them from the selection.
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      if (!prev.size) return prev;
+      const existing = new Set(state.rows.map((row) => row.id));
+      const next = new Set([...prev].filter((id) => existing.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [state.rows]);
+
+  const handleSelectAllFiltered = useCallback(() => {
+    setSelectedIds(new Set(filteredRows.map((row) => row.id)));
+  }, [filteredRows]);
+
+  const handleClearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+    selectionAnchor.current = null;
+  }, []);
+
+  const selectedRowIds = useCallback(
+    () => state.rows.filter((row) => selectedIds.has(row.id)).map((row) => row.id),
+    [selectedIds, state.rows]
+  );
+
+  const handleBatchStatus = useCallback(
+    (status: RowStatusKind) => {
+      const ids = selectedRowIds();
+      const now = new Date().toISOString();
+      // Bulk "posted" counts once per row towards the pacing limits, like Mark Posted does.
+      const posted = status === 'posted' ? ids.map(() => now) : undefined;
+      if (posted) {
+        const overrun = pacingOverrun(loadPacing(), settings, posted.length, Date.parse(now));
+        if (overrun && !window.confirm(`${describePacingOverrun(overrun, posted.length, settings)} Mark them posted anyway?`)) return;
+      }
+      dispatch({ type: 'setStatuses', ids, status, note: 'bulk edit', at: now }, 'Bulk status change', { posted });
+      if (posted) setPacing(updatePacing((prev) => posted.reduce(recordPost, prev)));
+      push(`Set ${ids.length} row${ids.length === 1 ? '' : 's'} to ${status}.`, 'success');
+    },
+    [dispatch, push, selectedRowIds, settings]
+  );
+
+  const handleBatchReset = useCallback(() => {
+    const ids = selectedRowIds();
+    dispatch({ type: 'setStatuses', ids, status: 'pending', note: 'reset', at: new Date().toISOString() }, 'Bulk reset');
+    push(`Reset ${ids.length} row${ids.length === 1 ? '' : 's'} to pending.`, 'success');
+  }, [dispatch, push, selectedRowIds]);
+
+  const handleBatchDelete = useCallback(() => {
+    const ids = selectedRowIds();
+    dispatch({ type: 'deleteRows', ids }, 'Bulk delete');
+    setSelectedIds(new Set());
+    push(`Deleted ${ids.length} row${ids.length === 1 ? '' : 's'}.`, 'info');
+  }, [dispatch, push, selectedRowIds]);
+
+  const handleBatchReplace = useCallback(
+    (find: string, replacement: string, matchCase: boolean) => {
+      const ids = selectedRowIds();
+      const { changed } = replaceInPosts(state.rows, new Set(ids), find, replacement, { matchCase });
+      if (changed) dispatch({ type: 'replaceText', ids, find, replacement, matchCase }, 'Find and replace');
+      push(
+        changed ? `Replaced text in ${changed} row${changed === 1 ? '' : 's'}.` : `"${find}" was not found in the selected rows.`,
+        changed ? 'success' : 'info'
+      );
+    },
+    [dispatch, push, selectedRowIds, state.rows]
+  );
+
+  const handleBatchMove = useCallback(
+    (position: number) => {
+      dispatch({ type: 'moveRows', ids: selectedRowIds(), position }, 'Move rows');
+    },
+    [dispatch, selectedRowIds]
+  );
+
+  const findDuplicateRow = useCallback(
+    (input: NewRowInput): string | null => {
+      const key = makeMergeKey(input.name, input.url);
+      const existing = state.rows.find((row) => makeMergeKey(row.name, row.url) === key);
+      return existing ? `"${existing.name || existing.url}" is already in the queue.` : null;
+    },
+    [state.rows]
+  );
+
+  const handleAddRow = useCallback(
+    (input: NewRowInput) => {
+      const row: QueueRow = {
+        id: createId(),
+        name: input.name,
+        url: normalizeGroupUrl(input.url),
+        ad: input.ad,
+        status: 'pending',
+        history: [],
+        lastChangedAt: new Date().toISOString(),
+      };
+      dispatch({ type: 'addRow', row }, 'Add group');
+      push(`Added "${row.name || row.url}".`, 'success');
+    },
+    [dispatch, push]
+  );
+
+  const handleDeleteRow = useCallback(
+    (row: QueueRow) => {
+      if (!window.confirm(`Delete "${row.name || row.url || 'Untitled group'}"? You can undo this.`)) return;
+      dispatch({ type: 'deleteRows', ids: [row.id] }, 'Delete row');
+      push('Row deleted.', 'info');
+    },
+    [dispatch, push]
+  );
+
+  const handleReorderRow = useCallback(
+    (id: string, targetId: string) => {
+      dispatch({ type: 'moveRow', id, targetId }, 'Reorder rows');
+    },
+    [dispatch]
+  );
+
+  const handleMergeDuplicates = useCallback(
+    (merges: { ids: string[]; keepId: string }[]) => {
+      const removed = merges.reduce((count, merge) => count + merge.ids.length - 1, 0);
+      dispatch({ type: 'mergeDuplicates', merges }, 'Merge duplicates');
+      push(`Merged ${removed} duplicate row${removed === 1 ? '' : 's'}.`, 'success');
+    },
+    [dispatch, push]
+  );
+
+  const filteredIds = useMemo(() => filteredRows.map((row) => row.id), [filteredRows]);
+  const { drag, handleProps: dragHandleProps } = useRowDrag(filteredIds, handleReorderRow);
+
+  const handleAssignTemplate = useCallback(
+    (id: string) => {
+      dispatch({ type: 'assignTemplate', id }, 'Apply template to all rows');
+      push('Template applied to every row.', 'success');
+    },
+    [dispatch, push]
+  );
+
   const handleFilePicker = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
-  const handleSetCurrent = useCallback((row: QueueRow) => {
-    setState((prev) => ({ ...prev, currentId: row.id }));
+  const handleBackupPicker = useCallback(() => {
+    backupInputRef.current?.click();
   }, []);
 
+  const handleSetCurrent = useCallback((row: QueueRow) => {
+    dispatch({ type: 'setCurrent', id: row.id });
+  }, [dispatch]);
+
+  const commands = useMemo<Command[]>(() => {
+    const withCurrent = (action: (row: QueueRow) => void) => () => {
+      if (currentRow) action(currentRow);
+    };
+    const noRow = !currentRow;
+    const filterCommands: Command[] = ROW_FILTERS.map((filter, index) => ({
+      id: `filter-${filter}`,
+      label: filter === 'all' ? 'Show all rows' : filter === 'follow-up' ? 'Show rows needing follow-up' : `Show ${filter}`,
+      group: 'Filter',
+      shortcut: String(index + 1),
+      run: () => handleFilterChange(filter),
+    }));
+
+    return [
+      { id: 'next-row', label: 'Next row', group: 'Queue', shortcut: 'j', run: () => handleStep(1) },
+      { id: 'prev-row', label: 'Previous row', group: 'Queue', shortcut: 'k', run: () => handleStep(-1) },
+      { id: 'copy-open', label: 'Copy & Open', group: 'Queue', shortcut: 'c', disabled: noRow, run: withCurrent(handleCopyAndOpen) },
+      { id: 'copy-only', label: 'Copy Only', group: 'Queue', disabled: noRow, run: withCurrent(handleCopyOnly) },
+      { id: 'open-only', label: 'Open Only', group: 'Queue', shortcut: 'o', disabled: noRow, run: withCurrent(handleOpenOnly) },
+      { id: 'mark-posted', label: 'Mark Posted', group: 'Queue', shortcut: 'm', disabled: noRow, run: withCurrent(handlePosted) },
+      { id: 'skip', label: 'Skip', group: 'Queue', shortcut: 's', disabled: noRow, run: withCurrent(handleSkip) },
+      { id: 'mark-failed', label: 'Mark Failed', group: 'Queue', shortcut: 'f', disabled: noRow, run: withCurrent(handleFailed) },
+      {
+        id: 'undo',
+        label: 'Undo',
+        group: 'General',
+        shortcut: 'mod+z',
+        yieldToInputs: true,
+        disabled: !undoStack.past.length,
+        run: () => handleUndo(),
+      },
+      {
+        id: 'redo',
+        label: 'Redo',
+        group: 'General',
+        shortcut: 'mod+shift+z',
+        yieldToInputs: true,
+        disabled: !undoStack.future.length,
+        run: () => handleRedo(),
+      },
+      { id: 'history', label: 'Show undo history', group: 'General', shortcut: 'h', run: () => setOverlay('history') },
+      { id: 'stats', label: 'Show stats', group: 'General', shortcut: 'a', run: () => setOverlay('stats') },
+      {
+        id: 'focus-mode',
+        label: focusMode ? 'Leave focus mode' : 'Focus mode',
+        group: 'General',
+        shortcut: 'v',
+        run: () => setFocusMode((prev) => !prev),
+      },
+      { id: 'shuffle', label: 'Shuffle pending rows', group: 'Queue', run: handleShuffle },
+      { id: 'new-session', label: 'Start a new posting session', group: 'Queue', run: handleNewPacingSession },
+      {
+        id: 'toggle-select',
+        label: 'Select or deselect current row',
+        group: 'Queue',
+        shortcut: 'x',
+        disabled: noRow,
+        run: withCurrent((row) => handleToggleSelect(row.id, false)),
+      },
+      { id: 'select-all', label: 'Select all filtered rows', group: 'Queue', run: handleSelectAllFiltered },
+      { id: 'clear-selection', label: 'Clear selection', group: 'Queue', run: handleClearSelection },
+      ...filterCommands,
+      { id: 'focus-search', label: 'Search groups', group: 'Filter', shortcut: '/', run: () => searchInputRef.current?.focus() },
+      { id: 'import-csv', label: 'Import CSV', group: 'Data', run: handleFilePicker },
+      { id: 'export-csv', label: 'Export CSV', group: 'Data', run: handleExportCsv },
+      { id: 'backup-json', label: 'Backup JSON', group: 'Data', run: handleExportBackup },
+      { id: 'restore-json', label: 'Restore JSON', group: 'Data', run: handleBackupPicker },
+      { id: 'sample-csv', label: 'Download sample CSV', group: 'Data', run: handleDownloadSample },
+      { id: 'help', label: 'Show keyboard shortcuts', group: 'General', shortcut: '?', run: () => setOverlay('help') },
+      { id: 'palette', label: 'Open command palette', group: 'General', shortcut: 'mod+k', run: () => setOverlay('palette') },
+    ];
+  }, [
+    currentRow,
+    focusMode,
+    handleBackupPicker,
+    handleClearSelection,
+    handleCopyAndOpen,
+    handleCopyOnly,
+    handleDownloadSample,
+    handleExportBackup,
+    handleExportCsv,
+    handleFailed,
+    handleFilePicker,
+    handleFilterChange,
+    handleNewPacingSession,
+    handleOpenOnly,
+    handlePosted,
+    handleSelectAllFiltered,
+    handleShuffle,
+    handleSkip,
+    handleStep,
+    handleToggleSelect,
+    handleRedo,
+    handleUndo,
+    undoStack,
+  ]);
+
+  useKeyboardShortcuts(
+    commands,
+    overlay === null && pendingImport === null && pendingConflicts === null && failingRow === null && checkRow === null
+  );
+
   return (
     <div className="mx-auto flex min-h-screen w-full max-w-6xl flex-col gap-6 px-4 pb-10 pt-24 text-slate-100">
       <section className="top-action-bar fixed inset-x-0 top-0 z-50 border-b border-slate-800 bg-slate-950/95 px-4 py-3 shadow-lg shadow-slate-950/40 backdrop-blur">
         <div className="mx-auto flex max-w-5xl flex-nowrap items-center justify-start gap-2 overflow-x-auto">
           <ActionButton
-            label="Copy & Open"
+            label={pacingButtonLabel(pacingStatus) ?? 'Copy & Open'}
             tone="primary"
             size="lg"
-            disabled={!currentRow}
+            disabled={!currentRow || pacingStatus.blockedBy !== null}
             onClick={() => {
               if (currentRow) handleCopyAndOpen(currentRow);
             }}
@@ -396,6 +1026,26 @@ function InnerApp() {
               if (currentRow) handleSkip(currentRow);
             }}
           />
+          <ActionButton
+            label="Mark Failed"
+            tone="danger"
+            size="lg"
+            disabled={!currentRow}
+            onClick={() => {
+              if (currentRow) handleFailed(currentRow);
+            }}
+          />
+          <ActionButton label="Undo" tone="muted" size="lg" disabled={!undoStack.past.length} onClick={() => handleUndo()} />
+          <ActionButton label="Redo" tone="muted" size="lg" disabled={!undoStack.future.length} onClick={() => handleRedo()} />
+          {pacingStatus.blockedBy === 'session' && (
+            <ActionButton label="New session" tone="muted" size="lg" onClick={handleNewPacingSession} />
+          )}
+          {(!online || tabSync.peers > 0) && (
+            <div className="ml-auto flex shrink-0 items-center gap-2">
+              {!online && <OfflineBadge />}
+              {tabSync.peers > 0 && <TabRoleBadge {...tabSync} />}
+            </div>
+          )}
         </div>
       </section>
       <header className="space-y-4">
@@ -416,6 +1066,17 @@ function InnerApp() {
                   <ActionPill label="Pending" value={counts.pending} tone="sky" />
                   <ActionPill label="Posted" value={counts.posted} tone="emerald" />
                   <ActionPill label="Skipped" value={counts.skipped} tone="amber" />
+                  <ActionPill label="Failed" value={counts.failed} tone="rose" />
+                  <ActionPill
+                    label="Today"
+                    value={formatLimit(pacingStatus.postsToday, settings.maxPostsPerDay)}
+                    tone={pacingStatus.blockedBy === 'daily' ? 'rose' : 'neutral'}
+                  />
+                  <ActionPill
+                    label="Session"
+                    value={formatLimit(pacingStatus.postsThisSession, settings.maxPostsPerSession)}
+                    tone={pacingStatus.blockedBy === 'session' ? 'rose' : 'neutral'}
+                  />
                 </div>
               </div>
             </div>
@@ -440,6 +1101,27 @@ function InnerApp() {
               >
                 Sample CSV
               </button>
+              <button
+                type="button"
+                onClick={handleExportCsv}
+                className="h-11 rounded-full border border-slate-700 bg-slate-900 px-4 text-sm font-semibold uppercase tracking-wide text-slate-100 shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+              >
+                Export CSV
+              </button>
+              <button
+                type="button"
+                onClick={handleExportBackup}
+                className="h-11 rounded-full border border-slate-700 bg-slate-900 px-4 text-sm font-semibold uppercase tracking-wide text-slate-100 shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+              >
+                Backup JSON
+              </button>
+              <button
+                type="button"
+                onClick={handleBackupPicker}
+                className="h-11 rounded-full border border-slate-700 bg-slate-900 px-4 text-sm font-semibold uppercase tracking-wide text-slate-100 shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+              >
+                Restore JSON
+              </button>
               <a
                 href={FACEBOOK_GROUPS_SCANNER_SCRIPT_PATH}
                 download="facebook-groups-discover-export.user.js"
@@ -492,10 +1174,47 @@ function InnerApp() {
         </section>
       </header>
 
+      <WorkspaceBar
+        workspaces={session.workspaces}
+        activeId={state.id}
+        onSwitch={(id) => handleWorkspaceChange((prev) => switchWorkspace(prev, id))}
+        onCreate={(name) => {
+          handleWorkspaceChange((prev) => addWorkspace(prev, name));
+          push('Workspace created.', 'success');
+        }}
+        onRename={(id, name) => setSession((prev) => renameWorkspace(prev, id, name))}
+        onDuplicate={(id) => {
+          handleWorkspaceChange((prev) => duplicateWorkspace(prev, id));
+          push('Workspace duplicated.', 'success');
+        }}
+        onArchive={(id, archived) => {
+          handleWorkspaceChange((prev) => archiveWorkspace(prev, id, archived));
+          push(archived ? 'Workspace archived.' : 'Workspace restored.', 'info');
+        }}
+        onDelete={(id) => {
+          handleWorkspaceChange((prev) => deleteWorkspace(prev, id));
+          push('Workspace deleted.', 'info');
+        }}
+      />
+
+      <SettingsPanel settings={settings} onChange={setSettings} />
+
+      <AddRowForm findDuplicate={findDuplicateRow} onAdd={handleAddRow} />
+
+      <TemplatePanel
+        templates={state.templates ?? []}
+        rows={state.rows}
+        currentId={state.currentId}
+        onCreate={handleCreateTemplate}
+        onUpdate={handleUpdateTemplate}
+        onDelete={handleDeleteTemplate}
+        onAssignAll={handleAssignTemplate}
+      />
+
       <section className="sticky top-20 z-20 -mx-4 border-y border-slate-800 bg-slate-950/90 px-4 py-3 backdrop-blur">
         <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
           <div className="flex flex-wrap gap-2 text-xs font-semibold uppercase tracking-wide">
-            {(['all', 'pending', 'posted', 'skipped', 'failed'] as const).map((filterKey) => {
+            {ROW_FILTERS.map((filterKey) => {
               const active = state.filter === filterKey;
               return (
                 <button
@@ -506,13 +1225,17 @@ function InnerApp() {
                     active ? 'border-sky-500/60 bg-sky-500/15 text-sky-100' : 'border-slate-700 bg-slate-900'
                   }`}
                 >
-                  {filterKey === 'all' ? 'All' : filterKey[0].toUpperCase() + filterKey.slice(1)}
+                  {FILTER_LABELS[filterKey]}
+                  {filterKey === 'follow-up' && followUpIds.size > 0 && (
+                    <span className="ml-2 rounded-full bg-amber-500/20 px-2 text-amber-100">{followUpIds.size}</span>
+                  )}
                 </button>
               );
             })}
           </div>
           <div className="flex flex-col gap-2 md:flex-1 md:flex-row md:items-center md:gap-3 md:pl-4">
             <input
+              ref={searchInputRef}
               type="search"
               value={state.search}
               onChange={handleSearchChange}
@@ -526,14 +1249,147 @@ function InnerApp() {
             >
               Shuffle pending
             </button>
+            <button
+              type="button"
+              onClick={() => setOverlay('palette')}
+              className="hidden h-11 rounded-full border border-slate-700 bg-slate-900 px-4 text-sm font-semibold uppercase tracking-wide shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400 md:inline-flex md:items-center"
+            >
+              Commands
+            </button>
+            <button
+              type="button"
+              onClick={() => setOverlay('history')}
+              className="hidden h-11 rounded-full border border-slate-700 bg-slate-900 px-4 text-sm font-semibold uppercase tracking-wide shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400 md:inline-flex md:items-center"
+            >
+              History
+            </button>
+            <button
+              type="button"
+              onClick={() => setOverlay('stats')}
+              className="h-11 rounded-full border border-slate-700 bg-slate-900 px-4 text-sm font-semibold uppercase tracking-wide shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+            >
+              Stats
+            </button>
+            <button
+              type="button"
+              onClick={() => setFocusMode(true)}
+              className="h-11 rounded-full border border-slate-700 bg-slate-900 px-4 text-sm font-semibold uppercase tracking-wide shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+            >
+              Focus
+            </button>
           </div>
         </div>
       </section>
 
+      {overlay === 'palette' && <CommandPalette commands={commands} onClose={() => setOverlay(null)} />}
+      {overlay === 'help' && <ShortcutOverlay commands={commands} onClose={() => setOverlay(null)} />}
+      {overlay === 'history' && (
+        <HistoryPanel stack={undoStack} onUndo={handleUndo} onRedo={handleRedo} onClose={() => setOverlay(null)} />
+      )}
+      {overlay === 'stats' && (
+        <StatsPanel
+          rows={state.rows}
+          sessionStartedAt={new Date(pacingStatus.sessionStartedAt).toISOString()}
+          onExport={handleExportStats}
+          onClose={() => setOverlay(null)}
+        />
+      )}
+
+      {failingRow && (
+        <FailureReasonDialog
+          groupName={failingRow.name}
+          onConfirm={handleConfirmFailed}
+          onCancel={handleCancelFailed}
+        />
+      )}
+
+      {checkRow && (
+        <PostCheckDialog
+          groupName={checkRow.name}
+          openedAt={unresolvedOpenAt(checkRow)}
+          onAnswer={handlePostCheckAnswer}
+          onFailed={handlePostCheckFailed}
+          onDismiss={() => setCheckRowId(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportPreview
+          fileName={pendingImport.fileName}
+          table={pendingImport.table}
+          initialMapping={pendingImport.mapping}
+          remembered={pendingImport.remembered}
+          existingRows={state.rows}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {pendingConflicts && (
+        <ImportConflicts
+          fileName={pendingConflicts.report.fileName}
+          plan={pendingConflicts.plan}
+          onConfirm={handleResolveConflicts}
+          onCancel={() => setPendingConflicts(null)}
+        />
+      )}
+
+      {serviceWorker.updateReady && (
+        <section
+          role="status"
+          className="flex flex-col gap-3 rounded-2xl border border-sky-500/60 bg-sky-500/10 p-4 text-sm text-sky-100 sm:flex-row sm:items-center sm:justify-between"
+        >
+          <p>A new version of the app is ready. Reload to start using it; your queue is saved first.</p>
+          <button
+            type="button"
+            onClick={async () => {
+              await persistence.retry();
+              serviceWorker.applyUpdate();
+            }}
+            className="shrink-0 rounded-full border border-sky-400/60 bg-sky-500/15 px-4 py-2 text-xs font-semibold uppercase tracking-wide"
+          >
+            Reload
+          </button>
+        </section>
+      )}
+
+      {persistence.error && (
+        <section
+          role="alert"
+          className="flex flex-col gap-3 rounded-2xl border border-rose-500/60 bg-rose-500/10 p-4 text-sm text-rose-100 sm:flex-row sm:items-center sm:justify-between"
+        >
+          <p>{persistence.error}</p>
+          <div className="flex shrink-0 gap-2">
+            <button
+              type="button"
+              onClick={persistence.retry}
+              className="rounded-full border border-rose-400/60 bg-rose-500/15 px-4 py-2 text-xs font-semibold uppercase tracking-wide"
+            >
+              Retry save
+            </button>
+            <button
+              type="button"
+              onClick={handleExportBackup}
+              className="rounded-full border border-slate-700 bg-slate-900 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-100"
+            >
+              Backup JSON
+            </button>
+          </div>
+        </section>
+      )}
+
+      {importReport && <ImportReportPanel report={importReport} onDismiss={() => setImportReport(null)} />}
+
       <main className="space-y-3">
+        {state.filter === 'failed' && <RetryPanel rows={filteredRows} onRequeue={handleRequeue} />}
+
+        <DuplicatesPanel rows={state.rows} onMerge={handleMergeDuplicates} />
+
         {filteredRows.length === 0 && (
           <p className="rounded-xl border border-dashed border-slate-700 bg-slate-900/60 p-6 text-sm text-slate-300">
-            Import a CSV with group names, URLs, and post text to start working through the queue.
+            {persistence.hydrated
+              ? 'Import a CSV with group names, URLs, and post text, or add a group by hand, to start working through the queue.'
+              : 'Loading your saved queue…'}
           </p>
         )}
 
@@ -541,6 +1397,13 @@ function InnerApp() {
           <table className="min-w-full divide-y divide-slate-800 text-sm">
             <thead className="bg-slate-900/60 text-left text-xs uppercase tracking-wide text-slate-400">
               <tr>
+                <th className="w-10 px-4 py-3">
+                  <SelectAllCheckbox
+                    selected={filteredRows.filter((row) => selectedIds.has(row.id)).length}
+                    total={filteredRows.length}
+                    onChange={(checked) => (checked ? handleSelectAllFiltered() : handleClearSelection())}
+                  />
+                </th>
                 <th className="px-4 py-3">Status</th>
                 <th className="px-4 py-3">Group</th>
                 <th className="px-4 py-3">Post text</th>
@@ -548,17 +1411,30 @@ function InnerApp() {
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-800">
-              {filteredRows.map((row) => (
+              {visibleRows.map(({ row, rendered, lintIssues }) => (
                 <RowItem
                   key={row.id}
                   row={row}
                   active={row.id === state.currentId}
+                  selected={selectedIds.has(row.id)}
+                  onToggleSelect={(range) => handleToggleSelect(row.id, range)}
+                  blockedUntil={row.status === 'pending' ? cooldownUntil(row, postIndex, settings.cooldownDays) : null}
+                  followUp={followUpIds.has(row.id)}
+                  rendered={rendered}
+                  templates={state.templates ?? []}
+                  lintIssues={lintIssues}
                   onCopyOpen={() => handleCopyAndOpen(row)}
                   onPosted={() => handlePosted(row)}
                   onSkip={() => handleSkip(row)}
-                  onUndo={() => handleUndo(row)}
+                  onFailed={() => handleFailed(row)}
                   onEdit={(text) => handlePostEdit(row.id, text)}
+                  onRulesChange={(patch) => handleRulesChange(row.id, patch)}
+                  onTemplateChange={(patch) => handleTemplateChange(row.id, patch)}
                   onSelect={() => handleSetCurrent(row)}
+                  onDelete={() => handleDeleteRow(row)}
+                  dragHandleProps={dragHandleProps(row.id)}
+                  dragging={drag?.id === row.id}
+                  dropTarget={!!drag && drag.overId === row.id && drag.id !== row.id}
                 />
               ))}
             </tbody>
@@ -566,22 +1442,70 @@ function InnerApp() {
         </div>
 
         <div className="space-y-3 md:hidden">
-          {filteredRows.map((row) => (
+          {visibleRows.map(({ row, rendered, lintIssues }) => (
             <RowCard
               key={row.id}
               row={row}
               active={row.id === state.currentId}
+              selected={selectedIds.has(row.id)}
+              onToggleSelect={(range) => handleToggleSelect(row.id, range)}
+              blockedUntil={row.status === 'pending' ? cooldownUntil(row, postIndex, settings.cooldownDays) : null}
+              followUp={followUpIds.has(row.id)}
+              rendered={rendered}
+              templates={state.templates ?? []}
+              lintIssues={lintIssues}
               onCopyOpen={() => handleCopyAndOpen(row)}
               onPosted={() => handlePosted(row)}
               onSkip={() => handleSkip(row)}
-              onUndo={() => handleUndo(row)}
+              onFailed={() => handleFailed(row)}
               onEdit={(text) => handlePostEdit(row.id, text)}
+              onRulesChange={(patch) => handleRulesChange(row.id, patch)}
+              onTemplateChange={(patch) => handleTemplateChange(row.id, patch)}
               onSelect={() => handleSetCurrent(row)}
+              onDelete={() => handleDeleteRow(row)}
+              dragHandleProps={dragHandleProps(row.id)}
+              dragging={drag?.id === row.id}
+              dropTarget={!!drag && drag.overId === row.id && drag.id !== row.id}
             />
           ))}
         </div>
+
+        <BulkActionBar
+          selectedCount={selectedIds.size}
+          filteredCount={filteredRows.length}
+          totalCount={state.rows.length}
+          onSelectAllFiltered={handleSelectAllFiltered}
+          onClear={handleClearSelection}
+          onSetStatus={handleBatchStatus}
+          onResetPending={handleBatchReset}
+          onDelete={handleBatchDelete}
+          onReplace={handleBatchReplace}
+          onMove={handleBatchMove}
+        />
       </main>
 
+      {focusMode && (
+        <FocusView
+          rows={filteredRows}
+          currentRow={currentRow ?? null}
+          postText={currentRow ? renderRowPost(currentRow, state.templates).text : ''}
+          filterLabel={FILTER_LABELS[state.filter]}
+          blockedUntil={
+            currentRow?.status === 'pending' ? cooldownUntil(currentRow, postIndex, settings.cooldownDays) : null
+          }
+          followUp={!!currentRow && followUpIds.has(currentRow.id)}
+          copyLabel={pacingButtonLabel(pacingStatus) ?? 'Copy & Open'}
+          copyBlocked={pacingStatus.blockedBy !== null}
+          onSelect={handleSetCurrent}
+          onStep={handleStep}
+          onCopyOpen={handleCopyAndOpen}
+          onCopyOnly={handleCopyOnly}
+          onOpenOnly={handleOpenOnly}
+          onPosted={handlePosted}
+          onExit={() => setFocusMode(false)}
+        />
+      )}
+
       <footer className="text-center text-xs text-slate-500">
         by Devskits916
       </footer>
@@ -599,6 +1523,19 @@ function InnerApp() {
           }
         }}
       />
+      <input
+        ref={backupInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          if (file) {
+            handleBackupFile(file);
+            event.target.value = '';
+          }
+        }}
+      />
     </div>
   );
 }
@@ -606,21 +1543,48 @@ function InnerApp() {
 function RowItem({
   row,
   active,
+  selected,
+  onToggleSelect,
+  blockedUntil,
+  followUp,
+  rendered,
+  templates,
+  lintIssues,
   onCopyOpen,
   onPosted,
   onSkip,
-  onUndo,
+  onFailed,
   onEdit,
+  onRulesChange,
+  onTemplateChange,
   onSelect,
+  onDelete,
+  dragHandleProps,
+  dragging,
+  dropTarget,
 }: {
   row: QueueRow;
   active: boolean;
+  selected: boolean;
+  /** `range` is true for shift-clicks, which extend the selection from the last clicked row. */
+  onToggleSelect: (range: boolean) => void;
+  blockedUntil: number | null;
+  followUp: boolean;
+  rendered: RenderedPost;
+  templates: PostTemplate[];
+  lintIssues: LintIssue[];
   onCopyOpen: () => void;
   onPosted: () => void;
   onSkip: () => void;
-  onUndo: () => void;
+  onFailed: () => void;
   onEdit: (text: string) => void;
+  onRulesChange: (patch: GroupRulesPatch) => void;
+  onTemplateChange: (patch: Pick<QueueRow, 'templateId' | 'fields'>) => void;
   onSelect: () => void;
+  onDelete: () => void;
+  dragHandleProps: React.HTMLAttributes<HTMLButtonElement>;
+  dragging: boolean;
+  dropTarget: boolean;
 }) {
   const [expanded, setExpanded] = useState(false);
   const [editing, setEditing] = useState(false);
@@ -630,22 +1594,27 @@ function RowItem({
     setDraft(row.ad);
   }, [row.ad]);
 
-  const showUndo = row.undoExpiresAt !== undefined && row.undoExpiresAt > Date.now();
+  const failure = getRowFailure(row);
 
   return (
-    <tr className={`transition ${active ? 'bg-slate-900/80' : 'bg-transparent'}`}>
+    <tr
+      data-row-id={row.id}
+      className={`transition ${active ? 'bg-slate-900/80' : selected ? 'bg-sky-950/40' : 'bg-transparent'} ${
+        dragging ? 'opacity-50' : ''
+      } ${dropTarget ? 'outline outline-2 -outline-offset-2 outline-sky-400' : ''}`}
+    >
+      <td className="px-4 py-4 align-top">
+        <div className="flex flex-col items-center gap-2">
+          <RowCheckbox label={row.name || 'Untitled group'} checked={selected} onToggle={onToggleSelect} />
+          <DragHandle label={row.name || 'Untitled group'} {...dragHandleProps} />
+        </div>
+      </td>
       <td className="px-4 py-4 align-top">
         <div className="flex flex-col gap-2">
           <StatusBadge status={row.status} />
-          {showUndo && (
-            <button
-              type="button"
-              onClick={onUndo}
-              className="text-xs font-semibold text-sky-300 underline-offset-2 hover:underline"
-            >
-              Undo
-            </button>
-          )}
+          {failure && <p className="max-w-[10rem] text-xs text-rose-200">{describeFailure(failure)}</p>}
+          {blockedUntil !== null && <CooldownBadge until={blockedUntil} />}
+          <AttemptInfo row={row} followUp={followUp} />
         </div>
       </td>
       <td className="px-4 py-4 align-top">
@@ -662,7 +1631,7 @@ function RowItem({
           {!editing && (
             <>
               <p className={`text-sm text-slate-100 ${expanded ? 'whitespace-pre-wrap' : 'line-clamp-3 whitespace-pre-wrap'}`}>
-                {row.ad || 'No post text yet.'}
+                {rendered.text || 'No post text yet.'}
               </p>
               <div className="flex gap-2 text-xs">
                 <button
@@ -672,14 +1641,17 @@ function RowItem({
                 >
                   {expanded ? 'Collapse' : 'Expand'}
                 </button>
-                <button
-                  type="button"
-                  onClick={() => setEditing(true)}
-                  className="font-semibold text-sky-300 underline-offset-2 hover:underline"
-                >
-                  Edit text
-                </button>
+                {!rendered.template && (
+                  <button
+                    type="button"
+                    onClick={() => setEditing(true)}
+                    className="font-semibold text-sky-300 underline-offset-2 hover:underline"
+                  >
+                    Edit text
+                  </button>
+                )}
               </div>
+              <RowTemplate row={row} templates={templates} rendered={rendered} onChange={onTemplateChange} />
             </>
           )}
           {editing && (
@@ -717,9 +1689,13 @@ function RowItem({
       </td>
       <td className="px-4 py-4 align-top">
         <div className="flex flex-col gap-2">
+          <GroupRules row={row} onChange={onRulesChange} />
+          <LintWarnings issues={lintIssues} />
           <ActionButton label="Copy & Open" tone="primary" onClick={onCopyOpen} />
           <ActionButton label="Mark Posted" tone="success" onClick={onPosted} />
           <ActionButton label="Skip" tone="muted" onClick={onSkip} />
+          <ActionButton label="Mark Failed" tone="danger" onClick={onFailed} />
+          <DeleteRowButton onClick={onDelete} />
         </div>
       </td>
     </tr>
@@ -729,21 +1705,48 @@ function RowItem({
 function RowCard({
   row,
   active,
+  selected,
+  onToggleSelect,
+  blockedUntil,
+  followUp,
+  rendered,
+  templates,
+  lintIssues,
   onCopyOpen,
   onPosted,
   onSkip,
-  onUndo,
+  onFailed,
   onEdit,
+  onRulesChange,
+  onTemplateChange,
   onSelect,
+  onDelete,
+  dragHandleProps,
+  dragging,
+  dropTarget,
 }: {
   row: QueueRow;
   active: boolean;
+  selected: boolean;
+  /** `range` is true for shift-clicks, which extend the selection from the last clicked row. */
+  onToggleSelect: (range: boolean) => void;
+  blockedUntil: number | null;
+  followUp: boolean;
+  rendered: RenderedPost;
+  templates: PostTemplate[];
+  lintIssues: LintIssue[];
   onCopyOpen: () => void;
   onPosted: () => void;
   onSkip: () => void;
-  onUndo: () => void;
+  onFailed: () => void;
   onEdit: (text: string) => void;
+  onRulesChange: (patch: GroupRulesPatch) => void;
+  onTemplateChange: (patch: Pick<QueueRow, 'templateId' | 'fields'>) => void;
   onSelect: () => void;
+  onDelete: () => void;
+  dragHandleProps: React.HTMLAttributes<HTMLButtonElement>;
+  dragging: boolean;
+  dropTarget: boolean;
 }) {
   const [expanded, setExpanded] = useState(false);
   const [editing, setEditing] = useState(false);
@@ -753,16 +1756,21 @@ function RowCard({
     setDraft(row.ad);
   }, [row.ad]);
 
-  const showUndo = row.undoExpiresAt !== undefined && row.undoExpiresAt > Date.now();
+  const failure = getRowFailure(row);
 
   return (
     <div
+      data-row-id={row.id}
       className={`rounded-2xl border bg-slate-950/70 p-4 shadow transition ${
         active ? 'border-sky-600/60 ring-1 ring-sky-500/40' : 'border-slate-800'
-      }`}
+      } ${dragging ? 'opacity-50' : ''} ${dropTarget ? 'outline outline-2 outline-sky-400' : ''}`}
     >
       <div className="flex items-start justify-between gap-3">
-        <div className="space-y-1">
+        <div className="flex flex-col items-center gap-2">
+          <RowCheckbox label={row.name || 'Untitled group'} checked={selected} onToggle={onToggleSelect} />
+          <DragHandle label={row.name || 'Untitled group'} {...dragHandleProps} />
+        </div>
+        <div className="flex-1 space-y-1">
           <button type="button" onClick={onSelect} className="text-left">
             <p className="text-base font-semibold leading-tight">{row.name || 'Untitled group'}</p>
             <p className="text-xs text-slate-400 break-words">{row.url || 'No URL'}</p>
@@ -770,17 +1778,11 @@ function RowCard({
               <p className="mt-1 text-xs text-slate-500">Updated {new Date(row.lastChangedAt).toLocaleString()}</p>
             )}
           </button>
-          <div className="flex items-center gap-2 text-xs">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
             <StatusBadge status={row.status} />
-            {showUndo && (
-              <button
-                type="button"
-                onClick={onUndo}
-                className="font-semibold text-sky-300 underline-offset-2 hover:underline"
-              >
-                Undo
-              </button>
-            )}
+            {failure && <span className="text-rose-200">{describeFailure(failure)}</span>}
+            {blockedUntil !== null && <CooldownBadge until={blockedUntil} />}
+            <AttemptInfo row={row} followUp={followUp} />
           </div>
         </div>
         <button
@@ -796,16 +1798,18 @@ function RowCard({
         {!editing && (
           <>
             <p className={`text-sm text-slate-100 ${expanded ? 'whitespace-pre-wrap' : 'line-clamp-4 whitespace-pre-wrap'}`}>
-              {row.ad || 'No post text yet.'}
+              {rendered.text || 'No post text yet.'}
             </p>
             <div className="flex flex-wrap gap-2 text-xs">
-              <button
-                type="button"
-                onClick={() => setEditing(true)}
-                className="font-semibold text-sky-300 underline-offset-2 hover:underline"
-              >
-                Edit text
-              </button>
+              {!rendered.template && (
+                <button
+                  type="button"
+                  onClick={() => setEditing(true)}
+                  className="font-semibold text-sky-300 underline-offset-2 hover:underline"
+                >
+                  Edit text
+                </button>
+              )}
               <button
                 type="button"
                 onClick={onCopyOpen}
@@ -814,6 +1818,7 @@ function RowCard({
                 Copy now
               </button>
             </div>
+            <RowTemplate row={row} templates={templates} rendered={rendered} onChange={onTemplateChange} />
           </>
         )}
         {editing && (
@@ -849,49 +1854,39 @@ function RowCard({
         )}
       </div>
 
-      <div className="mt-4 grid grid-cols-1 gap-2 sm:grid-cols-3">
+      <div className="mt-4">
+        <GroupRules row={row} onChange={onRulesChange} />
+        <LintWarnings issues={lintIssues} />
+      </div>
+
+      <div className="mt-4 grid grid-cols-1 gap-2 sm:grid-cols-2">
         <ActionButton label="Copy & Open" tone="primary" onClick={onCopyOpen} />
         <ActionButton label="Mark Posted" tone="success" onClick={onPosted} />
         <ActionButton label="Skip" tone="muted" onClick={onSkip} />
+        <ActionButton label="Mark Failed" tone="danger" onClick={onFailed} />
+      </div>
+      <div className="mt-3 text-right">
+        <DeleteRowButton onClick={onDelete} />
       </div>
     </div>
   );
 }
 
-function StatusBadge({ status }: { status: RowStatusKind }) {
-  const styles: Record<RowStatusKind, string> = {
-    pending: 'border-slate-700 bg-slate-800 text-slate-200',
-    posted: 'border-emerald-500/60 bg-emerald-500/10 text-emerald-100',
-    skipped: 'border-amber-500/60 bg-amber-500/10 text-amber-100',
-    failed: 'border-rose-500/60 bg-rose-500/10 text-rose-100',
-  };
-  const label: Record<RowStatusKind, string> = {
-    pending: 'Pending',
-    posted: 'Posted',
-    skipped: 'Skipped',
-    failed: 'Failed',
-  };
-  return (
-    <span className={`inline-flex w-fit items-center rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide ${styles[status]}`}>
-      {label[status]}
-    </span>
-  );
-}
-
 function ActionPill({
   label,
   value,
   tone,
 }: {
   label: string;
-  value: number;
-  tone: 'neutral' | 'sky' | 'emerald' | 'amber';
+  value: number | string;
+  tone: 'neutral' | 'sky' | 'emerald' | 'amber' | 'rose';
 }) {
-  const toneStyles: Record<'neutral' | 'sky' | 'emerald' | 'amber', string> = {
+  const toneStyles: Record<'neutral' | 'sky' | 'emerald' | 'amber' | 'rose', string> = {
     neutral: 'border-slate-700 bg-slate-900 text-slate-100',
     sky: 'border-sky-500/50 bg-sky-500/10 text-sky-50',
     emerald: 'border-emerald-500/50 bg-emerald-500/10 text-emerald-50',
     amber: 'border-amber-500/50 bg-amber-500/10 text-amber-50',
+    rose: 'border-rose-500/50 bg-rose-500/10 text-rose-50',
   };
 
   return (
@@ -902,69 +1897,72 @@ function ActionPill({
   );
 }
 
-function ActionButton({
-  label,
-  tone,
-  onClick,
-  size = 'md',
-  disabled = false,
-}: {
-  label: string;
-  tone: 'primary' | 'success' | 'muted' | 'danger';
-  onClick: () => void;
-  size?: 'md' | 'lg';
-  disabled?: boolean;
-}) {
-  const styles: Record<'primary' | 'success' | 'muted' | 'danger', string> = {
-    primary: 'border-sky-500/60 bg-sky-500/15 text-sky-100',
-    success: 'border-emerald-500/60 bg-emerald-500/15 text-emerald-100',
-    muted: 'border-slate-700 bg-slate-900 text-slate-100',
-    danger: 'border-rose-500/60 bg-rose-500/15 text-rose-100',
-  } as const;
-
-  const sizeStyles: Record<'md' | 'lg', string> = {
-    md: 'px-4 py-2 text-sm sm:min-w-[9rem]',
-    lg: 'px-5 py-3 text-base sm:min-w-[10.5rem]',
-  };
-  return (
-    <button
-      type="button"
-      onClick={onClick}
-      disabled={disabled}
-      className={`w-full rounded-full border font-semibold uppercase tracking-wide shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400 disabled:cursor-not-allowed disabled:border-slate-800 disabled:bg-slate-900/70 disabled:text-slate-500 disabled:shadow-none sm:w-auto ${sizeStyles[size]} ${styles[tone]}`}
-    >
-      {label}
-    </button>
-  );
+
+function escapeCsvValue(value: string): string {
+  if (value.includes(',') || value.includes('\n') || value.includes('"')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
 }
 
-function makeMergeKey(name: string, url: string): string {
-  return `${name.trim().toLowerCase()}|${url.trim().toLowerCase()}`;
+function formatLimit(count: number, limit: number): string {
+  return limit > 0 ? `${count}/${limit}` : String(count);
 }
 
-function shuffleArray<T>(items: T[]): T[] {
-  const result = [...items];
-  for (let i = result.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [result[i], result[j]] = [result[j], result[i]];
+function describePacingBlock(status: PacingStatus): string | null {
+  switch (status.blockedBy) {
+    case 'session':
+      return `Session post limit reached. Start a new session, or one starts in ${formatCountdown((status.until ?? 0) - Date.now())}.`;
+    case 'daily':
+      return 'Daily post limit reached. Posting resumes tomorrow.';
+    case 'interval':
+      return `Slow down: next post allowed in ${formatCountdown((status.until ?? 0) - Date.now())}.`;
+    default:
+      return null;
   }
-  return result;
 }
 
-function escapeCsvValue(value: string): string {
-  if (value.includes(',') || value.includes('\n') || value.includes('"')) {
-    return `"${value.replace(/"/g, '""')}"`;
+function describePacingOverrun(blockedBy: NonNullable<PacingStatus['blockedBy']>, count: number, settings: AppSettings): string {
+  const rows = `${count} row${count === 1 ? '' : 's'}`;
+  switch (blockedBy) {
+    case 'session':
+      return `Marking ${rows} posted goes over the session limit of ${settings.maxPostsPerSession} posts.`;
+    case 'daily':
+      return `Marking ${rows} posted goes over the daily limit of ${settings.maxPostsPerDay} posts.`;
+    case 'interval':
+      return `Marking ${rows} posted skips the ${settings.minIntervalMinutes}-minute wait between posts.`;
   }
-  return value;
 }
 
-function isValidHttpUrl(value: string): boolean {
-  try {
-    const url = new URL(value);
-    return url.protocol === 'http:' || url.protocol === 'https:';
-  } catch (error) {
-    return false;
-  }
+function pacingButtonLabel(status: PacingStatus): string | null {
+  if (status.blockedBy === 'session') return 'Session limit';
+  if (status.until === null) return null;
+  return `Wait ${formatCountdown(status.until - Date.now())}`;
+}
+
+function scrollRowIntoView(id: string): void {
+  const elements = document.querySelectorAll<HTMLElement>(`[data-row-id="${CSS.escape(id)}"]`);
+  const visible = Array.from(elements).find((element) => element.offsetParent !== null);
+  visible?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+}
+
+function downloadFile(fileName: string, content: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+}
+
+function fileSlug(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug ? `paste-happy-${slug}` : 'paste-happy';
+}
+
+function fileTimestamp(): string {
+  return new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
 }
 
 export default function App() {
@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface ActionButtonProps {
+  label: string;
+  tone: 'primary' | 'success' | 'muted' | 'danger';
+  onClick: () => void;
+  size?: 'md' | 'lg';
+  disabled?: boolean;
+}
+
+export function ActionButton({ label, tone, onClick, size = 'md', disabled = false }: ActionButtonProps) {
+  const styles: Record<'primary' | 'success' | 'muted' | 'danger', string> = {
+    primary: 'border-sky-500/60 bg-sky-500/15 text-sky-100',
+    success: 'border-emerald-500/60 bg-emerald-500/15 text-emerald-100',
+    muted: 'border-slate-700 bg-slate-900 text-slate-100',
+    danger: 'border-rose-500/60 bg-rose-500/15 text-rose-100',
+  } as const;
+
+  const sizeStyles: Record<'md' | 'lg', string> = {
+    md: 'px-4 py-2 text-sm sm:min-w-[9rem]',
+    lg: 'px-5 py-3 text-base sm:min-w-[10.5rem]',
+  };
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={`w-full rounded-full border font-semibold uppercase tracking-wide shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400 disabled:cursor-not-allowed disabled:border-slate-800 disabled:bg-slate-900/70 disabled:text-slate-500 disabled:shadow-none sm:w-auto ${sizeStyles[size]} ${styles[tone]}`}
+    >
+      {label}
+    </button>
+  );
+}
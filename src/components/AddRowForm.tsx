@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { isValidHttpUrl } from '../lib/url';
+
+export interface NewRowInput {
+  name: string;
+  url: string;
+  ad: string;
+}
+
+interface AddRowFormProps {
+  /** Returns an error message when the group is already in the queue. */
+  findDuplicate: (input: NewRowInput) => string | null;
+  onAdd: (input: NewRowInput) => void;
+}
+
+const INPUT_CLASS =
+  'rounded-xl border border-slate-700 bg-slate-900 px-3 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400';
+
+export function AddRowForm({ findDuplicate, onAdd }: AddRowFormProps) {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [ad, setAd] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const input = { name: name.trim(), url: url.trim(), ad: ad.trim() };
+    if (!input.name && !input.url) {
+      setError('Enter a group name or URL.');
+      return;
+    }
+    if (input.url && !isValidHttpUrl(input.url)) {
+      setError('URL must start with http:// or https://');
+      return;
+    }
+    const duplicate = findDuplicate(input);
+    if (duplicate) {
+      setError(duplicate);
+      return;
+    }
+    onAdd(input);
+    setName('');
+    setUrl('');
+    setAd('');
+    setError(null);
+  };
+
+  return (
+    <details className="group rounded-3xl border border-slate-800 bg-slate-950/70 p-4 shadow-lg shadow-slate-950/30">
+      <summary className="cursor-pointer list-none text-sm font-semibold uppercase tracking-wide text-slate-200">
+        Add group
+      </summary>
+      <form onSubmit={handleSubmit} className="mt-4 space-y-3" noValidate>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="flex flex-col gap-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+            Group name
+            <input
+              type="text"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              className={`h-11 normal-case tracking-normal ${INPUT_CLASS}`}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+            Group URL
+            <input
+              type="url"
+              inputMode="url"
+              value={url}
+              onChange={(event) => setUrl(event.target.value)}
+              placeholder="https://www.facebook.com/groups/…"
+              className={`h-11 normal-case tracking-normal ${INPUT_CLASS}`}
+            />
+          </label>
+        </div>
+        <label className="flex flex-col gap-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+          Post text
+          <textarea
+            value={ad}
+            onChange={(event) => setAd(event.target.value)}
+            className={`min-h-[100px] py-2 normal-case tracking-normal ${INPUT_CLASS}`}
+          />
+        </label>
+        {error && <p className="text-sm text-rose-200">{error}</p>}
+        <button
+          type="submit"
+          className="h-11 rounded-full border border-sky-300 bg-sky-400 px-5 text-sm font-bold uppercase tracking-wide text-slate-950"
+        >
+          Add to queue
+        </button>
+      </form>
+    </details>
+  );
+}
@@ -0,0 +1,102 @@
+import React from 'react';
+import { openAttempts, unresolvedOpenAt } from '../lib/followUp';
+import { QueueRow, RowStatusKind } from '../lib/types';
+import { TabSyncStatus } from '../lib/useTabSync';
+
+interface StatusBadgeProps {
+  status: RowStatusKind;
+}
+
+export function StatusBadge({ status }: StatusBadgeProps) {
+  const styles: Record<RowStatusKind, string> = {
+    pending: 'border-slate-700 bg-slate-800 text-slate-200',
+    posted: 'border-emerald-500/60 bg-emerald-500/10 text-emerald-100',
+    skipped: 'border-amber-500/60 bg-amber-500/10 text-amber-100',
+    failed: 'border-rose-500/60 bg-rose-500/10 text-rose-100',
+  };
+  const label: Record<RowStatusKind, string> = {
+    pending: 'Pending',
+    posted: 'Posted',
+    skipped: 'Skipped',
+    failed: 'Failed',
+  };
+  return (
+    <span className={`inline-flex w-fit items-center rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide ${styles[status]}`}>
+      {label[status]}
+    </span>
+  );
+}
+
+interface CooldownBadgeProps {
+  until: number;
+}
+
+export function CooldownBadge({ until }: CooldownBadgeProps) {
+  const date = new Date(until);
+  return (
+    <span
+      title={`Group cooldown ends ${date.toLocaleString()}`}
+      className="inline-flex w-fit items-center rounded-full border border-amber-500/60 bg-amber-500/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-amber-100"
+    >
+      Blocked until {date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+    </span>
+  );
+}
+
+export function OfflineBadge() {
+  return (
+    <span
+      role="status"
+      title="No connection. The queue keeps working and saving on this device; opening groups needs a connection."
+      className="inline-flex shrink-0 items-center gap-2 rounded-full border border-amber-500/60 bg-amber-500/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-amber-100"
+    >
+      <span aria-hidden="true" className="h-2 w-2 rounded-full bg-amber-400" />
+      Offline
+    </span>
+  );
+}
+
+export function TabRoleBadge({ role, peers }: TabSyncStatus) {
+  const leader = role === 'leader';
+  const others = `${peers} other tab${peers === 1 ? '' : 's'}`;
+  return (
+    <span
+      title={
+        leader
+          ? `You're working in this tab. Changes sync with ${others}.`
+          : `Another tab is active. Changes made there appear here, and changes here sync to ${others}.`
+      }
+      className={`inline-flex shrink-0 items-center gap-2 rounded-full border px-3 py-1 text-[11px] font-semibold uppercase tracking-wide ${
+        leader ? 'border-emerald-500/60 bg-emerald-500/10 text-emerald-100' : 'border-slate-700 bg-slate-900 text-slate-300'
+      }`}
+    >
+      <span aria-hidden="true" className={`h-2 w-2 rounded-full ${leader ? 'bg-emerald-400' : 'bg-slate-500'}`} />
+      {leader ? 'Active tab' : 'Following'}
+    </span>
+  );
+}
+
+interface AttemptInfoProps {
+  row: QueueRow;
+  followUp: boolean;
+}
+
+/** How often a row was opened, plus a follow-up badge when an open was never marked. */
+export function AttemptInfo({ row, followUp }: AttemptInfoProps) {
+  const attempts = openAttempts(row);
+  if (!attempts) return null;
+  const openedAt = unresolvedOpenAt(row);
+  return (
+    <>
+      {followUp && openedAt !== null && (
+        <span
+          title={`Opened ${new Date(openedAt).toLocaleString()} and not marked since`}
+          className="inline-flex w-fit items-center rounded-full border border-amber-500/60 bg-amber-500/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-amber-100"
+        >
+          Needs follow-up
+        </span>
+      )}
+      <span className="text-xs text-slate-500">Opened {attempts}×</span>
+    </>
+  );
+}
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { RowStatusKind } from '../lib/types';
+
+const BUTTON_CLASS =
+  'h-10 rounded-full border border-slate-700 bg-slate-900 px-4 text-xs font-semibold uppercase tracking-wide text-slate-100 shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400 disabled:cursor-not-allowed disabled:text-slate-500';
+
+const INPUT_CLASS =
+  'h-10 rounded-xl border border-slate-700 bg-slate-900 px-3 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400';
+
+const STATUS_OPTIONS: { value: RowStatusKind; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'posted', label: 'Posted' },
+  { value: 'skipped', label: 'Skipped' },
+  { value: 'failed', label: 'Failed' },
+];
+
+type BulkTool = 'status' | 'replace' | 'move' | null;
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  filteredCount: number;
+  totalCount: number;
+  onSelectAllFiltered: () => void;
+  onClear: () => void;
+  onSetStatus: (status: RowStatusKind) => void;
+  onResetPending: () => void;
+  onDelete: () => void;
+  onReplace: (find: string, replacement: string, matchCase: boolean) => void;
+  onMove: (position: number) => void;
+}
+
+export function BulkActionBar({
+  selectedCount,
+  filteredCount,
+  totalCount,
+  onSelectAllFiltered,
+  onClear,
+  onSetStatus,
+  onResetPending,
+  onDelete,
+  onReplace,
+  onMove,
+}: BulkActionBarProps) {
+  const [tool, setTool] = useState<BulkTool>(null);
+  const [status, setStatus] = useState<RowStatusKind>('posted');
+  const [find, setFind] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [matchCase, setMatchCase] = useState(false);
+  const [position, setPosition] = useState('1');
+
+  if (!selectedCount) return null;
+
+  const toggleTool = (next: BulkTool) => setTool((prev) => (prev === next ? null : next));
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${selectedCount} row${selectedCount === 1 ? '' : 's'}?`)) onDelete();
+  };
+
+  return (
+    <section
+      aria-label="Bulk actions"
+      className="sticky bottom-4 z-40 space-y-3 rounded-3xl border border-sky-700/60 bg-slate-950/95 p-4 shadow-xl shadow-slate-950/60 backdrop-blur"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="mr-2 text-sm font-semibold text-white">
+          {selectedCount} of {totalCount} selected
+        </p>
+        {selectedCount < filteredCount && (
+          <button type="button" onClick={onSelectAllFiltered} className={BUTTON_CLASS}>
+            Select all filtered ({filteredCount})
+          </button>
+        )}
+        <button type="button" onClick={onClear} className={BUTTON_CLASS}>
+          Clear
+        </button>
+        <button type="button" onClick={() => toggleTool('status')} className={BUTTON_CLASS} aria-expanded={tool === 'status'}>
+          Set status
+        </button>
+        <button type="button" onClick={onResetPending} className={BUTTON_CLASS}>
+          Reset to pending
+        </button>
+        <button type="button" onClick={() => toggleTool('replace')} className={BUTTON_CLASS} aria-expanded={tool === 'replace'}>
+          Find &amp; replace
+        </button>
+        <button type="button" onClick={() => toggleTool('move')} className={BUTTON_CLASS} aria-expanded={tool === 'move'}>
+          Move
+        </button>
+        <button type="button" onClick={handleDelete} className={`${BUTTON_CLASS} border-rose-500/60 text-rose-100`}>
+          Delete
+        </button>
+      </div>
+
+      {tool === 'status' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={status}
+            onChange={(event) => setStatus(event.target.value as RowStatusKind)}
+            aria-label="New status"
+            className={INPUT_CLASS}
+          >
+            {STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={() => onSetStatus(status)} className={BUTTON_CLASS}>
+            Apply to {selectedCount}
+          </button>
+        </div>
+      )}
+
+      {tool === 'replace' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={find}
+            onChange={(event) => setFind(event.target.value)}
+            placeholder="Find"
+            aria-label="Find in post text"
+            className={INPUT_CLASS}
+          />
+          <input
+            type="text"
+            value={replacement}
+            onChange={(event) => setReplacement(event.target.value)}
+            placeholder="Replace with"
+            aria-label="Replace with"
+            className={INPUT_CLASS}
+          />
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input type="checkbox" checked={matchCase} onChange={(event) => setMatchCase(event.target.checked)} />
+            Match case
+          </label>
+          <button type="button" disabled={!find} onClick={() => onReplace(find, replacement, matchCase)} className={BUTTON_CLASS}>
+            Replace in {selectedCount}
+          </button>
+        </div>
+      )}
+
+      {tool === 'move' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" onClick={() => onMove(1)} className={BUTTON_CLASS}>
+            To top
+          </button>
+          <button type="button" onClick={() => onMove(Number.MAX_SAFE_INTEGER)} className={BUTTON_CLASS}>
+            To bottom
+          </button>
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            Position
+            <input
+              type="number"
+              min={1}
+              value={position}
+              onChange={(event) => setPosition(event.target.value)}
+              className={`${INPUT_CLASS} w-24`}
+            />
+          </label>
+          <button
+            type="button"
+            disabled={!(Number(position) >= 1)}
+            onClick={() => onMove(Number(position))}
+            className={BUTTON_CLASS}
+          >
+            Move here
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Command, COMMAND_GROUPS, formatShortcut } from '../lib/commands';
+
+interface CommandPaletteProps {
+  commands: Command[];
+  onClose: () => void;
+}
+
+export function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const matches = useMemo(() => {
+    const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    return commands.filter((command) => {
+      const haystack = `${command.group} ${command.label}`.toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    });
+  }, [commands, query]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  const runCommand = (command: Command | undefined) => {
+    if (!command || command.disabled) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((prev) => Math.min(prev + 1, matches.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((prev) => Math.max(prev - 1, 0));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      runCommand(matches[activeIndex]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <Overlay onClose={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        onKeyDown={handleKeyDown}
+        className="mx-auto w-full max-w-lg overflow-hidden rounded-3xl border border-slate-800 bg-slate-950 shadow-xl shadow-slate-950/60"
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Type a command…"
+          aria-label="Search commands"
+          className="h-14 w-full border-b border-slate-800 bg-transparent px-5 text-base text-slate-100 focus:outline-none"
+        />
+        <ul role="listbox" className="max-h-80 overflow-y-auto py-2">
+          {matches.length === 0 && <li className="px-5 py-3 text-sm text-slate-400">No matching commands.</li>}
+          {matches.map((command, index) => (
+            <li key={command.id} role="option" aria-selected={index === activeIndex} aria-disabled={command.disabled}>
+              <button
+                type="button"
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => runCommand(command)}
+                disabled={command.disabled}
+                className={`flex w-full items-center justify-between gap-3 px-5 py-2 text-left text-sm disabled:text-slate-600 ${
+                  index === activeIndex ? 'bg-sky-500/15 text-sky-50' : 'text-slate-200'
+                }`}
+              >
+                <span>
+                  <span className="mr-2 text-[11px] font-semibold uppercase tracking-wide text-slate-500">{command.group}</span>
+                  {command.label}
+                </span>
+                {command.shortcut && <Kbd>{formatShortcut(command.shortcut)}</Kbd>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </Overlay>
+  );
+}
+
+export function ShortcutOverlay({ commands, onClose }: CommandPaletteProps) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' || event.key === '?') {
+        event.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <Overlay onClose={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-overlay-title"
+        className="mx-auto w-full max-w-2xl space-y-4 rounded-3xl border border-slate-800 bg-slate-950 p-5 shadow-xl shadow-slate-950/60"
+      >
+        <div className="flex items-center justify-between gap-3">
+          <h2 id="shortcut-overlay-title" className="text-xl font-semibold text-white">
+            Keyboard shortcuts
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-slate-700 bg-slate-900 px-3 py-1 text-xs font-semibold uppercase tracking-wide"
+          >
+            Close
+          </button>
+        </div>
+        <p className="text-xs text-slate-400">Single-key shortcuts are ignored while you are typing in a text field.</p>
+        <div className="grid gap-4 sm:grid-cols-2">
+          {COMMAND_GROUPS.map((group) => {
+            const items = commands.filter((command) => command.group === group && command.shortcut);
+            if (!items.length) return null;
+            return (
+              <section key={group} className="space-y-2">
+                <h3 className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">{group}</h3>
+                <ul className="space-y-1 text-sm">
+                  {items.map((command) => (
+                    <li key={command.id} className="flex items-center justify-between gap-3">
+                      <span className="text-slate-200">{command.label}</span>
+                      <Kbd>{formatShortcut(command.shortcut ?? '')}</Kbd>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+      </div>
+    </Overlay>
+  );
+}
+
+function Overlay({ children, onClose }: { children: React.ReactNode; onClose: () => void }) {
+  return (
+    <div
+      className="fixed inset-0 z-[60] overflow-y-auto bg-slate-950/80 px-4 pt-24 backdrop-blur"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      {children}
+    </div>
+  );
+}
+
+function Kbd({ children }: { children: React.ReactNode }) {
+  return (
+    <kbd className="rounded-md border border-slate-700 bg-slate-900 px-2 py-0.5 font-mono text-xs text-slate-200">
+      {children}
+    </kbd>
+  );
+}
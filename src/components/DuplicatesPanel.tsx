@@ -0,0 +1,79 @@
+import React, { useMemo, useState } from 'react';
+import { DuplicateGroup, findDuplicateGroups } from '../lib/duplicates';
+import { QueueRow } from '../lib/types';
+
+interface DuplicatesPanelProps {
+  rows: QueueRow[];
+  /** Each entry folds `ids` into the row `keepId`. */
+  onMerge: (merges: { ids: string[]; keepId: string }[]) => void;
+}
+
+/** Lists rows whose URLs point at the same Facebook group and merges them into one row. */
+export function DuplicatesPanel({ rows, onMerge }: DuplicatesPanelProps) {
+  const groups = useMemo(() => findDuplicateGroups(rows), [rows]);
+  const [kept, setKept] = useState<Record<string, string>>({});
+
+  if (!groups.length) return null;
+
+  const keepIdFor = (group: DuplicateGroup) =>
+    group.rows.some((row) => row.id === kept[group.key]) ? kept[group.key] : group.rows[0].id;
+  const toMerge = (group: DuplicateGroup) => ({ ids: group.rows.map((row) => row.id), keepId: keepIdFor(group) });
+
+  return (
+    <details className="group rounded-2xl border border-amber-500/30 bg-amber-500/5 p-4 text-sm shadow">
+      <summary className="flex cursor-pointer list-none flex-wrap items-center justify-between gap-3">
+        <span>
+          <span className="text-base font-semibold text-white">Possible duplicates</span>
+          <span className="ml-2 text-xs text-slate-400">
+            {groups.length} group{groups.length === 1 ? '' : 's'} queued more than once
+          </span>
+        </span>
+        <button
+          type="button"
+          onClick={(event) => {
+            event.preventDefault();
+            onMerge(groups.map(toMerge));
+          }}
+          className="rounded-full border border-amber-500/60 bg-amber-500/15 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-amber-100"
+        >
+          Merge all
+        </button>
+      </summary>
+      <p className="mt-2 text-xs text-slate-400">
+        The kept row keeps its name, post text and status, and takes over the history and tags of the others.
+      </p>
+      <ul className="mt-3 space-y-3">
+        {groups.map((group) => (
+          <li key={group.key} className="space-y-2 rounded-2xl border border-slate-800 bg-slate-900/50 p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="break-all text-xs text-slate-400">{group.key}</p>
+              <button
+                type="button"
+                onClick={() => onMerge([toMerge(group)])}
+                className="text-xs font-semibold text-sky-300 underline-offset-2 hover:underline"
+              >
+                Merge {group.rows.length} rows
+              </button>
+            </div>
+            {group.rows.map((row) => (
+              <label key={row.id} className="flex cursor-pointer items-start gap-2">
+                <input
+                  type="radio"
+                  name={`keep-${group.key}`}
+                  checked={keepIdFor(group) === row.id}
+                  onChange={() => setKept((prev) => ({ ...prev, [group.key]: row.id }))}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-semibold">{row.name || 'Untitled group'}</span>
+                  <span className="ml-2 text-xs uppercase tracking-wide text-slate-400">{row.status}</span>
+                  <span className="block break-all text-xs text-slate-500">{row.url}</span>
+                </span>
+              </label>
+            ))}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
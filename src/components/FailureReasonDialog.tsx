@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { FAILURE_REASONS, FailureReasonId, formatFailureNote } from '../lib/failures';
+
+interface FailureReasonDialogProps {
+  groupName: string;
+  onConfirm: (note: string) => void;
+  onCancel: () => void;
+}
+
+export function FailureReasonDialog({ groupName, onConfirm, onCancel }: FailureReasonDialogProps) {
+  const [reason, setReason] = useState<FailureReasonId>('pending-approval');
+  const [detail, setDetail] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onConfirm(formatFailureNote(reason, detail));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] overflow-y-auto bg-slate-950/80 px-4 pt-24 backdrop-blur"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onCancel();
+      }}
+      onKeyDown={(event) => {
+        if (event.key === 'Escape') onCancel();
+      }}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="failure-dialog-title"
+        onSubmit={handleSubmit}
+        className="mx-auto w-full max-w-md space-y-4 rounded-3xl border border-slate-800 bg-slate-950 p-5 text-slate-100 shadow-xl shadow-slate-950/60"
+      >
+        <div className="space-y-1">
+          <h2 id="failure-dialog-title" className="text-xl font-semibold text-white">
+            Mark failed
+          </h2>
+          <p className="text-xs text-slate-400">{groupName || 'Untitled group'}</p>
+        </div>
+        <fieldset className="space-y-2">
+          <legend className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Reason</legend>
+          {FAILURE_REASONS.map((item, index) => (
+            <label
+              key={item.id}
+              className={`flex cursor-pointer items-center gap-3 rounded-2xl border px-4 py-3 text-sm ${
+                reason === item.id ? 'border-rose-500/60 bg-rose-500/10' : 'border-slate-800 bg-slate-900/50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="failure-reason"
+                value={item.id}
+                checked={reason === item.id}
+                autoFocus={index === 0}
+                onChange={() => setReason(item.id)}
+                className="accent-rose-400"
+              />
+              {item.label}
+            </label>
+          ))}
+        </fieldset>
+        {reason === 'other' && (
+          <textarea
+            value={detail}
+            onChange={(event) => setDetail(event.target.value)}
+            placeholder="What went wrong?"
+            autoFocus
+            className="min-h-[80px] w-full rounded-xl border border-slate-700 bg-slate-900 p-3 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+          />
+        )}
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="h-11 rounded-full border border-slate-700 bg-slate-900 px-5 text-sm font-semibold uppercase tracking-wide"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="h-11 rounded-full border border-rose-500/60 bg-rose-500/15 px-5 text-sm font-semibold uppercase tracking-wide text-rose-100"
+          >
+            Mark failed
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import React, { useEffect, useRef } from 'react';
+import { QueueRow, RowStatusKind } from '../lib/types';
+import { ActionButton } from './ActionButton';
+import { AttemptInfo, CooldownBadge, StatusBadge } from './Badges';
+
+const FOCUS_STATUS_MARKS: Record<RowStatusKind, { mark: string; className: string }> = {
+  pending: { mark: '…', className: 'text-slate-500' },
+  posted: { mark: '✓', className: 'text-emerald-300' },
+  skipped: { mark: '↷', className: 'text-amber-300' },
+  failed: { mark: '✕', className: 'text-rose-300' },
+};
+
+interface FocusViewProps {
+  rows: QueueRow[];
+  currentRow: QueueRow | null;
+  postText: string;
+  filterLabel: string;
+  blockedUntil: number | null;
+  followUp: boolean;
+  copyLabel: string;
+  copyBlocked: boolean;
+  onSelect: (row: QueueRow) => void;
+  onStep: (direction: 1 | -1) => void;
+  onCopyOpen: (row: QueueRow) => void;
+  onCopyOnly: (row: QueueRow) => void;
+  onOpenOnly: (row: QueueRow) => void;
+  onPosted: (row: QueueRow) => void;
+  onExit: () => void;
+}
+
+/**
+ * Two-pane layout for working through the queue one row at a time: the filtered rows on
+ * the left, the current row with its controls on the right. It sits under the top action
+ * bar, so Skip, Mark Failed and Undo stay one tap away.
+ */
+export function FocusView({
+  rows,
+  currentRow,
+  postText,
+  filterLabel,
+  blockedUntil,
+  followUp,
+  copyLabel,
+  copyBlocked,
+  onSelect,
+  onStep,
+  onCopyOpen,
+  onCopyOnly,
+  onOpenOnly,
+  onPosted,
+  onExit,
+}: FocusViewProps) {
+  const activeItemRef = useRef<HTMLLIElement | null>(null);
+  const currentId = currentRow?.id ?? null;
+
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentId]);
+
+  const index = currentId ? rows.findIndex((row) => row.id === currentId) : -1;
+
+  return (
+    <section aria-label="Focus mode" className="fixed inset-0 z-40 flex bg-slate-950 px-4 pb-4 pt-24 text-slate-100">
+      <div className="mx-auto grid min-h-0 w-full max-w-6xl flex-1 grid-rows-[minmax(0,12rem)_minmax(0,1fr)] gap-4 md:grid-cols-[20rem_minmax(0,1fr)] md:grid-rows-1">
+        <nav aria-label="Queue" className="flex min-h-0 flex-col rounded-3xl border border-slate-800 bg-slate-950/70 p-4">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-slate-200">Queue · {filterLabel}</h2>
+            <span className="text-xs tabular-nums text-slate-500">{rows.length}</span>
+          </div>
+          {rows.length === 0 && <p className="mt-3 text-sm text-slate-400">No rows match this filter.</p>}
+          <ul className="mt-3 min-h-0 flex-1 space-y-1 overflow-y-auto overscroll-contain">
+            {rows.map((row) => {
+              const active = row.id === currentId;
+              const status = FOCUS_STATUS_MARKS[row.status];
+              return (
+                <li key={row.id} ref={active ? activeItemRef : undefined}>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(row)}
+                    aria-current={active ? 'true' : undefined}
+                    className={`flex w-full items-center gap-3 rounded-2xl border px-3 py-2 text-left text-sm focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400 ${
+                      active ? 'border-sky-600/60 bg-sky-500/10 text-white' : 'border-transparent text-slate-300 hover:bg-slate-900'
+                    }`}
+                  >
+                    <span aria-label={row.status} className={`w-4 shrink-0 text-center ${status.className}`}>
+                      {status.mark}
+                    </span>
+                    <span className="truncate">{row.name || 'Untitled group'}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </nav>
+
+        <article className="flex min-h-0 flex-col gap-4 overflow-y-auto overscroll-contain rounded-3xl border border-slate-800 bg-slate-950/70 p-5">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0 space-y-1">
+              <h2 className="text-xl font-semibold text-white">{currentRow ? currentRow.name || 'Untitled group' : 'No row selected'}</h2>
+              {currentRow?.url && (
+                <a
+                  href={currentRow.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block break-words text-xs text-sky-300 underline-offset-2 hover:underline"
+                >
+                  {currentRow.url}
+                </a>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={onExit}
+              className="shrink-0 rounded-full border border-slate-700 bg-slate-900 px-3 py-1 text-xs font-semibold uppercase tracking-wide"
+            >
+              Exit focus
+            </button>
+          </div>
+
+          {currentRow ? (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-slate-400">{index === -1 ? 'Not in this filter' : `Row ${index + 1} of ${rows.length}`}</span>
+                <StatusBadge status={currentRow.status} />
+                {blockedUntil !== null && <CooldownBadge until={blockedUntil} />}
+                <AttemptInfo row={currentRow} followUp={followUp} />
+              </div>
+              <p className="whitespace-pre-wrap rounded-2xl border border-slate-800 bg-slate-900/60 p-4 text-sm text-slate-100">
+                {postText || 'No post text yet.'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <ActionButton label={copyLabel} tone="primary" disabled={copyBlocked} onClick={() => onCopyOpen(currentRow)} />
+                <ActionButton label="Copy Only" tone="muted" onClick={() => onCopyOnly(currentRow)} />
+                <ActionButton label="Open Only" tone="muted" onClick={() => onOpenOnly(currentRow)} />
+                <ActionButton label="Mark Posted & Next" tone="success" onClick={() => onPosted(currentRow)} />
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-slate-400">Pick a row from the queue, or import a CSV to get started.</p>
+          )}
+
+          <div className="mt-auto flex gap-2">
+            <ActionButton label="Prev" tone="muted" disabled={!rows.length || index === 0} onClick={() => onStep(-1)} />
+            <ActionButton label="Next" tone="muted" disabled={!rows.length || index === rows.length - 1} onClick={() => onStep(1)} />
+          </div>
+        </article>
+      </div>
+    </section>
+  );
+}
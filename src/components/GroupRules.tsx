@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { COMMON_TAGS, formatTags, hasGroupRules, MEMBERSHIP_STATES, parseTags } from '../lib/groupRules';
+import { GroupMembership, QueueRow } from '../lib/types';
+
+export type GroupRulesPatch = Pick<QueueRow, 'rules' | 'tags' | 'membership'>;
+
+const MEMBERSHIP_STYLES: Record<GroupMembership, string> = {
+  unknown: 'border-slate-700 bg-slate-900 text-slate-300',
+  member: 'border-emerald-500/60 bg-emerald-500/10 text-emerald-100',
+  requested: 'border-amber-500/60 bg-amber-500/10 text-amber-100',
+  'not-member': 'border-rose-500/60 bg-rose-500/10 text-rose-100',
+};
+
+interface GroupRulesProps {
+  row: QueueRow;
+  onChange: (patch: GroupRulesPatch) => void;
+}
+
+/** Shows a group's rules, tags and membership and lets them be edited in place. */
+export function GroupRules({ row, onChange }: GroupRulesProps) {
+  const [editing, setEditing] = useState(false);
+
+  if (editing) {
+    return (
+      <GroupRulesEditor
+        row={row}
+        onSave={(patch) => {
+          onChange(patch);
+          setEditing(false);
+        }}
+        onCancel={() => setEditing(false)}
+      />
+    );
+  }
+
+  const membership = row.membership ?? 'unknown';
+  const label = MEMBERSHIP_STATES.find((state) => state.id === membership)?.label ?? membership;
+
+  if (!hasGroupRules(row)) {
+    return (
+      <button
+        type="button"
+        onClick={() => setEditing(true)}
+        className="self-start text-xs font-semibold text-sky-300 underline-offset-2 hover:underline"
+      >
+        Add group rules
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-2xl border border-amber-500/30 bg-amber-500/5 p-3 text-xs">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className={`rounded-full border px-2 py-0.5 font-semibold uppercase tracking-wide ${MEMBERSHIP_STYLES[membership]}`}>
+          {label}
+        </span>
+        {(row.tags ?? []).map((tag) => (
+          <span key={tag} className="rounded-full border border-amber-500/60 bg-amber-500/15 px-2 py-0.5 font-semibold text-amber-100">
+            {tag}
+          </span>
+        ))}
+      </div>
+      {row.rules?.trim() && <p className="whitespace-pre-wrap text-amber-50/90">{row.rules}</p>}
+      <button
+        type="button"
+        onClick={() => setEditing(true)}
+        className="font-semibold text-sky-300 underline-offset-2 hover:underline"
+      >
+        Edit rules
+      </button>
+    </div>
+  );
+}
+
+function GroupRulesEditor({
+  row,
+  onSave,
+  onCancel,
+}: {
+  row: QueueRow;
+  onSave: (patch: GroupRulesPatch) => void;
+  onCancel: () => void;
+}) {
+  const [rules, setRules] = useState(row.rules ?? '');
+  const [tags, setTags] = useState(formatTags(row.tags));
+  const [membership, setMembership] = useState<GroupMembership>(row.membership ?? 'unknown');
+
+  useEffect(() => {
+    setRules(row.rules ?? '');
+    setTags(formatTags(row.tags));
+    setMembership(row.membership ?? 'unknown');
+  }, [row.membership, row.rules, row.tags]);
+
+  const parsedTags = parseTags(tags);
+  const suggestions = COMMON_TAGS.filter((tag) => !parsedTags.some((item) => item.toLowerCase() === tag.toLowerCase()));
+
+  return (
+    <div className="space-y-2 rounded-2xl border border-slate-800 bg-slate-900/60 p-3 text-xs">
+      <label className="flex flex-col gap-1 font-semibold uppercase tracking-wide text-slate-400">
+        Membership
+        <select
+          value={membership}
+          onChange={(event) => setMembership(event.target.value as GroupMembership)}
+          className="h-9 rounded-xl border border-slate-700 bg-slate-900 px-2 text-sm normal-case tracking-normal text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+        >
+          {MEMBERSHIP_STATES.map((state) => (
+            <option key={state.id} value={state.id}>
+              {state.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 font-semibold uppercase tracking-wide text-slate-400">
+        Tags (separate with ;)
+        <input
+          type="text"
+          value={tags}
+          onChange={(event) => setTags(event.target.value)}
+          className="h-9 rounded-xl border border-slate-700 bg-slate-900 px-2 text-sm normal-case tracking-normal text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+        />
+      </label>
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {suggestions.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => setTags(formatTags([...parsedTags, tag]))}
+              className="rounded-full border border-slate-700 px-2 py-0.5 text-slate-300 hover:border-amber-500/60 hover:text-amber-100"
+            >
+              + {tag}
+            </button>
+          ))}
+        </div>
+      )}
+      <label className="flex flex-col gap-1 font-semibold uppercase tracking-wide text-slate-400">
+        Rules
+        <textarea
+          value={rules}
+          onChange={(event) => setRules(event.target.value)}
+          placeholder="e.g. Promo posts only on Sundays, link in the first comment."
+          className="min-h-[80px] rounded-xl border border-slate-700 bg-slate-900 p-2 text-sm normal-case tracking-normal text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+        />
+      </label>
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() =>
+            onSave({
+              rules: rules.trim() || undefined,
+              tags: parsedTags.length ? parsedTags : undefined,
+              membership: membership === 'unknown' ? undefined : membership,
+            })
+          }
+          className="rounded-full border border-emerald-500/60 bg-emerald-500/15 px-4 py-2 font-semibold uppercase tracking-wide text-emerald-100"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full border border-slate-700 bg-slate-900 px-4 py-2 font-semibold uppercase tracking-wide"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useEffect } from 'react';
+import { formatShortcut } from '../lib/commands';
+import { HistoryEntry, HistoryStack, HISTORY_LIMIT } from '../lib/undoHistory';
+
+interface HistoryPanelProps {
+  stack: HistoryStack;
+  /** Undoes this many of the most recent entries. */
+  onUndo: (steps: number) => void;
+  onRedo: (steps: number) => void;
+  onClose: () => void;
+}
+
+export function HistoryPanel({ stack, onUndo, onRedo, onClose }: HistoryPanelProps) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Newest first in both lists; the bottom undone entry is the next one to redo.
+  const past = [...stack.past].reverse();
+  const future = stack.future;
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] overflow-y-auto bg-slate-950/80 px-4 pt-24 backdrop-blur"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-panel-title"
+        className="mx-auto w-full max-w-lg space-y-4 rounded-3xl border border-slate-800 bg-slate-950 p-5 shadow-xl shadow-slate-950/60"
+      >
+        <div className="flex items-center justify-between gap-3">
+          <h2 id="history-panel-title" className="text-xl font-semibold text-white">
+            Undo history
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-slate-700 bg-slate-900 px-3 py-1 text-xs font-semibold uppercase tracking-wide"
+          >
+            Close
+          </button>
+        </div>
+        <p className="text-xs text-slate-400">
+          {formatShortcut('mod+z')} undoes and {formatShortcut('mod+shift+z')} redoes. The last {HISTORY_LIMIT} changes in each
+          workspace are kept until you close this tab.
+        </p>
+
+        {!past.length && !future.length && <p className="text-sm text-slate-400">No changes yet.</p>}
+
+        {future.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Undone</h3>
+            <ul className="space-y-1">
+              {future.map((entry, index) => (
+                <HistoryItem
+                  key={entry.id}
+                  entry={entry}
+                  action="Redo to here"
+                  muted
+                  onClick={() => onRedo(future.length - index)}
+                />
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {past.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">Done</h3>
+            <ul className="space-y-1">
+              {past.map((entry, index) => (
+                <HistoryItem key={entry.id} entry={entry} action="Undo to here" onClick={() => onUndo(index + 1)} />
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function HistoryItem({
+  entry,
+  action,
+  muted = false,
+  onClick,
+}: {
+  entry: HistoryEntry;
+  action: string;
+  muted?: boolean;
+  onClick: () => void;
+}) {
+  const rows = entry.rows.length;
+  return (
+    <li className="flex items-center justify-between gap-3 rounded-2xl border border-slate-800 bg-slate-900/50 px-4 py-2 text-sm">
+      <span className={muted ? 'text-slate-500 line-through' : 'text-slate-200'}>
+        {entry.label}
+        <span className="ml-2 text-xs text-slate-500">
+          {new Date(entry.at).toLocaleTimeString()}
+          {rows > 0 && ` · ${rows} row${rows === 1 ? '' : 's'}`}
+        </span>
+      </span>
+      <button
+        type="button"
+        onClick={onClick}
+        className="shrink-0 text-xs font-semibold text-sky-300 underline-offset-2 hover:underline"
+      >
+        {action}
+      </button>
+    </li>
+  );
+}
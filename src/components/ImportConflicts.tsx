@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { ConflictField, ImportConflict, ImportPlan } from '../lib/importMerge';
+import { QueueRow } from '../lib/types';
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  ad: 'Post text',
+  status: 'Status',
+};
+
+interface ImportConflictsProps {
+  fileName: string;
+  plan: ImportPlan;
+  /** Called with the IDs of rows whose current post text and status should be kept. */
+  onConfirm: (keepExisting: Set<string>) => void;
+  onCancel: () => void;
+}
+
+export function ImportConflicts({ fileName, plan, onConfirm, onCancel }: ImportConflictsProps) {
+  const [keep, setKeep] = useState<Set<string>>(() => new Set());
+
+  const setChoice = (id: string, keepExisting: boolean) => {
+    setKeep((prev) => {
+      const next = new Set(prev);
+      if (keepExisting) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] overflow-y-auto bg-slate-950/80 px-4 py-10 backdrop-blur">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-conflicts-title"
+        className="mx-auto max-w-5xl space-y-5 rounded-3xl border border-slate-800 bg-slate-950 p-5 text-slate-100 shadow-xl shadow-slate-950/60"
+      >
+        <div className="space-y-1">
+          <h2 id="import-conflicts-title" className="text-xl font-semibold text-white">
+            Review changes
+          </h2>
+          <p className="text-xs text-slate-400">
+            {fileName} · {plan.added} new · {plan.updated} matched · {plan.removed} removed · {plan.conflicts.length} with a
+            different post text or status
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => setKeep(new Set())}
+            className="h-10 rounded-full border border-slate-700 bg-slate-900 px-4 text-xs font-semibold uppercase tracking-wide"
+          >
+            Use all imported
+          </button>
+          <button
+            type="button"
+            onClick={() => setKeep(new Set(plan.conflicts.map((conflict) => conflict.existing.id)))}
+            className="h-10 rounded-full border border-slate-700 bg-slate-900 px-4 text-xs font-semibold uppercase tracking-wide"
+          >
+            Keep all current
+          </button>
+        </div>
+
+        <ul className="space-y-3">
+          {plan.conflicts.map((conflict) => (
+            <ConflictItem
+              key={conflict.existing.id}
+              conflict={conflict}
+              keepExisting={keep.has(conflict.existing.id)}
+              onChange={(keepExisting) => setChoice(conflict.existing.id, keepExisting)}
+            />
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="h-11 rounded-full border border-slate-700 bg-slate-900 px-5 text-sm font-semibold uppercase tracking-wide"
+          >
+            Cancel import
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(keep)}
+            className="h-11 rounded-full border border-sky-300 bg-sky-400 px-5 text-sm font-bold uppercase tracking-wide text-slate-950"
+          >
+            Apply import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ConflictItem({
+  conflict,
+  keepExisting,
+  onChange,
+}: {
+  conflict: ImportConflict;
+  keepExisting: boolean;
+  onChange: (keepExisting: boolean) => void;
+}) {
+  const { existing, incoming, fields } = conflict;
+  const name = `conflict-${existing.id}`;
+
+  return (
+    <li className="space-y-3 rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
+      <div>
+        <p className="font-semibold">{incoming.name || existing.name || 'Untitled group'}</p>
+        <p className="break-all text-xs text-slate-400">{incoming.url || existing.url || 'No URL'}</p>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <ConflictSide
+          title="Keep current"
+          row={existing}
+          fields={fields}
+          name={name}
+          checked={keepExisting}
+          onSelect={() => onChange(true)}
+        />
+        <ConflictSide
+          title="Use imported"
+          row={incoming}
+          fields={fields}
+          name={name}
+          checked={!keepExisting}
+          onSelect={() => onChange(false)}
+        />
+      </div>
+    </li>
+  );
+}
+
+function ConflictSide({
+  title,
+  row,
+  fields,
+  name,
+  checked,
+  onSelect,
+}: {
+  title: string;
+  row: QueueRow;
+  fields: ConflictField[];
+  name: string;
+  checked: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <label
+      className={`flex cursor-pointer flex-col gap-2 rounded-xl border p-3 text-sm ${
+        checked ? 'border-sky-500/60 bg-sky-500/10' : 'border-slate-800 bg-slate-950/60'
+      }`}
+    >
+      <span className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-slate-300">
+        <input type="radio" name={name} checked={checked} onChange={onSelect} />
+        {title}
+      </span>
+      {fields.map((field) => (
+        <span key={field} className="space-y-1">
+          <span className="block text-[11px] font-semibold uppercase tracking-wide text-slate-500">{FIELD_LABELS[field]}</span>
+          <span className="block whitespace-pre-wrap text-slate-100">{row[field] || '—'}</span>
+        </span>
+      ))}
+    </label>
+  );
+}
@@ -0,0 +1,262 @@
+import React, { useMemo, useState } from 'react';
+import {
+  CSV_FIELDS,
+  CsvColumnMapping,
+  CsvField,
+  CsvTable,
+  hasRowContent,
+  mapCsvRecord,
+} from '../lib/csv';
+import { DEFAULT_IMPORT_OPTIONS, IMPORT_STRATEGIES, importMatchKey, ImportOptions } from '../lib/importMerge';
+import { QueueRow } from '../lib/types';
+
+const PREVIEW_ROW_COUNT = 10;
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  name: 'Group name',
+  url: 'Group URL',
+  ad: 'Post text',
+  status: 'Status',
+  history: 'History',
+  id: 'ID',
+  lastChangedAt: 'Last changed at',
+  rules: 'Group rules',
+  tags: 'Tags',
+  membership: 'Membership',
+  template: 'Template',
+};
+
+type RowFlag = 'new' | 'merge' | 'duplicate' | 'drop';
+
+const FLAG_STYLES: Record<RowFlag, string> = {
+  new: 'border-sky-500/60 bg-sky-500/10 text-sky-100',
+  merge: 'border-emerald-500/60 bg-emerald-500/10 text-emerald-100',
+  duplicate: 'border-amber-500/60 bg-amber-500/10 text-amber-100',
+  drop: 'border-rose-500/60 bg-rose-500/10 text-rose-100',
+};
+
+const FLAG_LABELS: Record<RowFlag, string> = {
+  new: 'New',
+  merge: 'Merges',
+  duplicate: 'Duplicate',
+  drop: 'Dropped',
+};
+
+interface ImportPreviewProps {
+  fileName: string;
+  table: CsvTable;
+  initialMapping: CsvColumnMapping;
+  /** Whether the mapping came from a previous import with the same header. */
+  remembered: boolean;
+  existingRows: QueueRow[];
+  onConfirm: (mapping: CsvColumnMapping, options: ImportOptions) => void;
+  onCancel: () => void;
+}
+
+export function ImportPreview({
+  fileName,
+  table,
+  initialMapping,
+  remembered,
+  existingRows,
+  onConfirm,
+  onCancel,
+}: ImportPreviewProps) {
+  const [mapping, setMapping] = useState<CsvColumnMapping>(initialMapping);
+  const [options, setOptions] = useState<ImportOptions>(DEFAULT_IMPORT_OPTIONS);
+
+  const existing = useMemo(
+    () => ({
+      ids: new Set(existingRows.map((row) => row.id)),
+      keys: new Set(existingRows.map((row) => importMatchKey(row, options.match))),
+    }),
+    [existingRows, options.match]
+  );
+
+  const flagged = useMemo(() => {
+    const seen = new Set<string>();
+    return table.records.map((record) => {
+      const row = mapCsvRecord(record.fields, mapping, table.header);
+      let flag: RowFlag = 'new';
+      if (!hasRowContent(row)) {
+        flag = 'drop';
+      } else {
+        const key = importMatchKey(row, options.match);
+        if (seen.has(key)) flag = 'duplicate';
+        else if ((row.id && existing.ids.has(row.id)) || existing.keys.has(key)) flag = 'merge';
+        seen.add(key);
+      }
+      return { line: record.line, row, flag };
+    });
+  }, [existing, mapping, options.match, table.header, table.records]);
+
+  const totals = useMemo(
+    () =>
+      flagged.reduce<Record<RowFlag, number>>(
+        (acc, item) => {
+          acc[item.flag] += 1;
+          return acc;
+        },
+        { new: 0, merge: 0, duplicate: 0, drop: 0 }
+      ),
+    [flagged]
+  );
+
+  const canImport = mapping.name !== undefined || mapping.url !== undefined;
+  const flagLabels = { ...FLAG_LABELS, merge: options.strategy === 'append' ? 'Already queued' : FLAG_LABELS.merge };
+  const strategy = IMPORT_STRATEGIES.find((item) => item.value === options.strategy);
+  const importCount = flagged.length - totals.drop - totals.duplicate - (options.strategy === 'append' ? totals.merge : 0);
+
+  const handleFieldChange = (field: CsvField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] overflow-y-auto bg-slate-950/80 px-4 py-10 backdrop-blur">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-preview-title"
+        className="mx-auto max-w-5xl space-y-5 rounded-3xl border border-slate-800 bg-slate-950 p-5 text-slate-100 shadow-xl shadow-slate-950/60"
+      >
+        <div className="space-y-1">
+          <h2 id="import-preview-title" className="text-xl font-semibold text-white">
+            Preview import
+          </h2>
+          <p className="text-xs text-slate-400">
+            {fileName} · {table.records.length} row{table.records.length === 1 ? '' : 's'}
+            {remembered ? ' · using the column mapping saved for this header' : ''}
+          </p>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {CSV_FIELDS.map((field) => (
+            <label key={field} className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+              {FIELD_LABELS[field]}
+              <select
+                value={mapping[field] ?? ''}
+                onChange={(event) => handleFieldChange(field, event.target.value)}
+                className="h-11 rounded-xl border border-slate-700 bg-slate-900 px-3 text-sm normal-case tracking-normal text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+              >
+                <option value="">— Not imported —</option>
+                {table.header.map((column, index) => (
+                  <option key={`${column}-${index}`} value={index}>
+                    {column || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+            When importing
+            <select
+              value={options.strategy}
+              onChange={(event) => setOptions((prev) => ({ ...prev, strategy: event.target.value as ImportOptions['strategy'] }))}
+              className="h-11 rounded-xl border border-slate-700 bg-slate-900 px-3 text-sm normal-case tracking-normal text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+            >
+              {IMPORT_STRATEGIES.map((item) => (
+                <option key={item.value} value={item.value}>
+                  {item.label}
+                </option>
+              ))}
+            </select>
+            <span className="text-[11px] font-normal normal-case tracking-normal text-slate-500">{strategy?.description}</span>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-wide text-slate-400">
+            Match existing rows by
+            <select
+              value={options.match}
+              onChange={(event) => setOptions((prev) => ({ ...prev, match: event.target.value as ImportOptions['match'] }))}
+              className="h-11 rounded-xl border border-slate-700 bg-slate-900 px-3 text-sm normal-case tracking-normal text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+            >
+              <option value="name-url">Group name and URL</option>
+              <option value="url">URL only (keeps history of renamed groups)</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-xs font-semibold uppercase tracking-wide">
+          {(Object.keys(FLAG_LABELS) as RowFlag[]).map((flag) => (
+            <span key={flag} className={`rounded-full border px-3 py-1 ${FLAG_STYLES[flag]}`}>
+              {flagLabels[flag]}: {totals[flag]}
+            </span>
+          ))}
+        </div>
+        {options.strategy === 'replace' && existingRows.length > totals.merge && (
+          <p className="text-sm text-amber-200">
+            {existingRows.length - totals.merge} queued row{existingRows.length - totals.merge === 1 ? '' : 's'} not in this file
+            will be removed.
+          </p>
+        )}
+
+        <div className="overflow-x-auto rounded-2xl border border-slate-800">
+          <table className="min-w-full divide-y divide-slate-800 text-sm">
+            <thead className="bg-slate-900/60 text-left text-xs uppercase tracking-wide text-slate-400">
+              <tr>
+                <th className="px-3 py-2">Line</th>
+                <th className="px-3 py-2">Result</th>
+                <th className="px-3 py-2">Group</th>
+                <th className="px-3 py-2">Post text</th>
+                <th className="px-3 py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {flagged.slice(0, PREVIEW_ROW_COUNT).map(({ line, row, flag }) => (
+                <tr key={line}>
+                  <td className="px-3 py-2 align-top tabular-nums text-slate-400">{line}</td>
+                  <td className="px-3 py-2 align-top">
+                    <span className={`inline-flex rounded-full border px-2 py-0.5 text-[11px] font-semibold uppercase ${FLAG_STYLES[flag]}`}>
+                      {flagLabels[flag]}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 align-top">
+                    <p className="font-semibold">{row.name || '—'}</p>
+                    <p className="break-all text-xs text-slate-400">{row.url || 'No URL'}</p>
+                  </td>
+                  <td className="px-3 py-2 align-top">
+                    <p className="line-clamp-2 whitespace-pre-wrap text-slate-200">{row.ad || '—'}</p>
+                  </td>
+                  <td className="px-3 py-2 align-top text-slate-300">{row.status ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {flagged.length > PREVIEW_ROW_COUNT && (
+          <p className="text-xs text-slate-500">Showing the first {PREVIEW_ROW_COUNT} of {flagged.length} rows.</p>
+        )}
+
+        {!canImport && <p className="text-sm text-rose-200">Map a group name or URL column to continue.</p>}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="h-11 rounded-full border border-slate-700 bg-slate-900 px-5 text-sm font-semibold uppercase tracking-wide"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={!canImport}
+            onClick={() => onConfirm(mapping, options)}
+            className="h-11 rounded-full border border-sky-300 bg-sky-400 px-5 text-sm font-bold uppercase tracking-wide text-slate-950 disabled:cursor-not-allowed disabled:border-slate-800 disabled:bg-slate-900/70 disabled:text-slate-500"
+          >
+            Import {importCount} row{importCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
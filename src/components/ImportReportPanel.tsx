@@ -0,0 +1,68 @@
+import React from 'react';
+import { CsvDiagnostic, CsvImportResult } from '../lib/csv';
+
+export interface ImportReport extends Omit<CsvImportResult, 'rows'> {
+  fileName: string;
+  imported: number;
+}
+
+const IMPORT_REPORT_LIMIT = 50;
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+  onDismiss: () => void;
+}
+
+/** Summarises the last CSV import: delimiter, rows imported and the problems found per line. */
+export function ImportReportPanel({ report, onDismiss }: ImportReportPanelProps) {
+  const errors = report.diagnostics.filter((item) => item.severity === 'error').length;
+  const warnings = report.diagnostics.length - errors;
+  const delimiterLabel: Record<CsvImportResult['delimiter'], string> = {
+    ',': 'comma',
+    ';': 'semicolon',
+    '\t': 'tab',
+  };
+  const visible: CsvDiagnostic[] = report.diagnostics.slice(0, IMPORT_REPORT_LIMIT);
+
+  return (
+    <section className="rounded-2xl border border-slate-800 bg-slate-950/70 p-4 text-sm shadow">
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h2 className="text-base font-semibold text-white">Import report</h2>
+          <p className="text-xs text-slate-400">
+            {report.fileName} · {delimiterLabel[report.delimiter]}-delimited · {report.imported} of {report.recordCount} rows
+            imported
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="rounded-full border border-slate-700 bg-slate-900 px-3 py-1 text-xs font-semibold uppercase tracking-wide"
+        >
+          Dismiss
+        </button>
+      </div>
+      {report.diagnostics.length === 0 ? (
+        <p className="mt-3 text-emerald-200">No problems found.</p>
+      ) : (
+        <>
+          <p className="mt-3 text-slate-300">
+            {errors} error{errors === 1 ? '' : 's'}, {warnings} warning{warnings === 1 ? '' : 's'}
+          </p>
+          <ul className="mt-2 max-h-60 space-y-1 overflow-y-auto text-xs">
+            {visible.map((item, index) => (
+              <li key={`${item.line}-${index}`} className={item.severity === 'error' ? 'text-rose-200' : 'text-amber-200'}>
+                <span className="font-semibold tabular-nums">Line {item.line}:</span> {item.problem}
+              </li>
+            ))}
+          </ul>
+          {report.diagnostics.length > visible.length && (
+            <p className="mt-2 text-xs text-slate-500">
+              {report.diagnostics.length - visible.length} more not shown.
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
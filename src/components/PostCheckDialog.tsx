@@ -0,0 +1,65 @@
+import React from 'react';
+import { PostCheckAnswer } from '../lib/types';
+
+interface PostCheckDialogProps {
+  groupName: string;
+  /** When the group was opened, shown so a late answer is not mistaken for the latest tab. */
+  openedAt: number | null;
+  onAnswer: (answer: Exclude<PostCheckAnswer, 'failed'>) => void;
+  /** Failed needs a reason, so it hands over to the failure dialog instead of answering here. */
+  onFailed: () => void;
+  onDismiss: () => void;
+}
+
+const BUTTON_CLASS =
+  'h-11 rounded-full border px-5 text-sm font-semibold uppercase tracking-wide focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400';
+
+export function PostCheckDialog({ groupName, openedAt, onAnswer, onFailed, onDismiss }: PostCheckDialogProps) {
+  return (
+    <div
+      className="fixed inset-0 z-[60] overflow-y-auto bg-slate-950/80 px-4 pt-24 backdrop-blur"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onDismiss();
+      }}
+      onKeyDown={(event) => {
+        if (event.key === 'Escape') onDismiss();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="post-check-title"
+        className="mx-auto w-full max-w-md space-y-4 rounded-3xl border border-slate-800 bg-slate-950 p-5 text-slate-100 shadow-xl shadow-slate-950/60"
+      >
+        <div className="space-y-1">
+          <h2 id="post-check-title" className="text-xl font-semibold text-white">
+            Did it post?
+          </h2>
+          <p className="text-xs text-slate-400">
+            {groupName || 'Untitled group'}
+            {openedAt !== null && ` · opened ${new Date(openedAt).toLocaleTimeString()}`}
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            type="button"
+            autoFocus
+            onClick={() => onAnswer('posted')}
+            className={`${BUTTON_CLASS} border-emerald-500/60 bg-emerald-500/15 text-emerald-100`}
+          >
+            Posted
+          </button>
+          <button type="button" onClick={onFailed} className={`${BUTTON_CLASS} border-rose-500/60 bg-rose-500/15 text-rose-100`}>
+            Failed…
+          </button>
+          <button type="button" onClick={() => onAnswer('skipped')} className={`${BUTTON_CLASS} border-slate-700 bg-slate-900`}>
+            Skip
+          </button>
+          <button type="button" onClick={() => onAnswer('not-yet')} className={`${BUTTON_CLASS} border-slate-700 bg-slate-900`}>
+            Not yet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { FAILURE_REASONS, FailureReasonId, getRowFailure } from '../lib/failures';
+import { QueueRow } from '../lib/types';
+
+interface RetryPanelProps {
+  rows: QueueRow[];
+  onRequeue: (ids: string[]) => void;
+}
+
+/** Groups failed rows by their recorded reason so a whole group can be sent back to pending. */
+export function RetryPanel({ rows, onRequeue }: RetryPanelProps) {
+  const groups = useMemo(() => {
+    const byReason = new Map<FailureReasonId, string[]>();
+    rows.forEach((row) => {
+      const failure = getRowFailure(row);
+      if (!failure) return;
+      byReason.set(failure.reason, [...(byReason.get(failure.reason) ?? []), row.id]);
+    });
+    return FAILURE_REASONS.map((reason) => ({ ...reason, ids: byReason.get(reason.id) ?? [] })).filter(
+      (group) => group.ids.length > 0
+    );
+  }, [rows]);
+
+  const allIds = groups.flatMap((group) => group.ids);
+  if (!allIds.length) return null;
+
+  return (
+    <section className="rounded-2xl border border-rose-500/30 bg-rose-500/5 p-4 text-sm shadow">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-base font-semibold text-white">Retry failed rows</h2>
+          <p className="text-xs text-slate-400">Requeue rows once the problem is resolved, for example after an admin approves you.</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => onRequeue(allIds)}
+          className="rounded-full border border-sky-500/60 bg-sky-500/15 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-sky-100"
+        >
+          Requeue all ({allIds.length})
+        </button>
+      </div>
+      <ul className="mt-3 grid gap-2 sm:grid-cols-2">
+        {groups.map((group) => (
+          <li
+            key={group.id}
+            className="flex items-center justify-between gap-3 rounded-2xl border border-slate-800 bg-slate-900/50 px-4 py-2"
+          >
+            <span>
+              {group.label} <span className="tabular-nums text-slate-400">· {group.ids.length}</span>
+            </span>
+            <button
+              type="button"
+              onClick={() => onRequeue(group.ids)}
+              className="text-xs font-semibold text-sky-300 underline-offset-2 hover:underline"
+            >
+              Requeue
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
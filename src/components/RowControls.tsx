@@ -0,0 +1,94 @@
+import React, { useEffect, useRef } from 'react';
+import { LintIssue } from '../lib/postLint';
+
+interface DragHandleProps extends React.HTMLAttributes<HTMLButtonElement> {
+  label: string;
+}
+
+export function DragHandle({ label, ...props }: DragHandleProps) {
+  return (
+    <button
+      type="button"
+      aria-label={`Reorder ${label}; drag, or use the arrow keys`}
+      title="Drag to reorder"
+      className="flex h-8 w-8 cursor-grab touch-none select-none items-center justify-center rounded-lg text-lg leading-none text-slate-500 hover:text-slate-200 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400 active:cursor-grabbing"
+      {...props}
+    >
+      ⠿
+    </button>
+  );
+}
+
+interface DeleteRowButtonProps {
+  onClick: () => void;
+}
+
+export function DeleteRowButton({ onClick }: DeleteRowButtonProps) {
+  return (
+    <button type="button" onClick={onClick} className="text-xs font-semibold text-rose-300 underline-offset-2 hover:underline">
+      Delete row
+    </button>
+  );
+}
+
+interface RowCheckboxProps {
+  label: string;
+  checked: boolean;
+  onToggle: (range: boolean) => void;
+}
+
+export function RowCheckbox({ label, checked, onToggle }: RowCheckboxProps) {
+  return (
+    <input
+      type="checkbox"
+      checked={checked}
+      aria-label={`Select ${label}`}
+      onChange={() => undefined}
+      onClick={(event) => onToggle(event.shiftKey)}
+      className="mt-1 h-5 w-5 shrink-0 accent-sky-400"
+    />
+  );
+}
+
+interface SelectAllCheckboxProps {
+  selected: number;
+  total: number;
+  onChange: (checked: boolean) => void;
+}
+
+/** Header checkbox for the filtered rows; shows the indeterminate state for a partial selection. */
+export function SelectAllCheckbox({ selected, total, onChange }: SelectAllCheckboxProps) {
+  const ref = useRef<HTMLInputElement | null>(null);
+  const all = total > 0 && selected === total;
+
+  useEffect(() => {
+    if (ref.current) ref.current.indeterminate = selected > 0 && !all;
+  }, [all, selected]);
+
+  return (
+    <input
+      ref={ref}
+      type="checkbox"
+      checked={all}
+      disabled={!total}
+      aria-label="Select all filtered rows"
+      onChange={(event) => onChange(event.target.checked)}
+      className="h-5 w-5 accent-sky-400"
+    />
+  );
+}
+
+interface LintWarningsProps {
+  issues: LintIssue[];
+}
+
+export function LintWarnings({ issues }: LintWarningsProps) {
+  if (!issues.length) return null;
+  return (
+    <ul className="space-y-1 rounded-2xl border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-100">
+      {issues.map((issue) => (
+        <li key={issue.ruleId}>⚠ {issue.message}</li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,103 @@
+import React from 'react';
+import { AppSettings } from '../lib/settings';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+}
+
+export function SettingsPanel({ settings, onChange }: SettingsPanelProps) {
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  return (
+    <details className="group rounded-3xl border border-slate-800 bg-slate-950/70 p-4 shadow-lg shadow-slate-950/30">
+      <summary className="cursor-pointer list-none text-sm font-semibold uppercase tracking-wide text-slate-200">
+        Posting safeguards
+      </summary>
+      <div className="mt-4 grid gap-4 sm:grid-cols-2">
+        <NumberField
+          id="settings-cooldown"
+          label="Group cooldown (days)"
+          hint="Rows whose group was posted to more recently are held back. 0 turns this off."
+          value={settings.cooldownDays}
+          step={0.5}
+          onChange={(value) => update('cooldownDays', value)}
+        />
+        <NumberField
+          id="settings-interval"
+          label="Minimum minutes between posts"
+          hint="Copy & Open waits this long after each Mark Posted. 0 turns this off."
+          value={settings.minIntervalMinutes}
+          onChange={(value) => update('minIntervalMinutes', value)}
+        />
+        <NumberField
+          id="settings-session-cap"
+          label="Posts per session"
+          hint="Copy & Open stops after this many posts until you start a new session. 0 means no limit."
+          value={settings.maxPostsPerSession}
+          onChange={(value) => update('maxPostsPerSession', Math.floor(value))}
+        />
+        <NumberField
+          id="settings-daily-cap"
+          label="Posts per day"
+          hint="Copy & Open stops for the rest of the day after this many posts. 0 means no limit."
+          value={settings.maxPostsPerDay}
+          onChange={(value) => update('maxPostsPerDay', Math.floor(value))}
+        />
+        <NumberField
+          id="settings-max-length"
+          label="Maximum post length"
+          hint="Longer posts get a warning before Copy & Open. 0 turns this off."
+          value={settings.maxPostLength}
+          step={50}
+          onChange={(value) => update('maxPostLength', Math.floor(value))}
+        />
+        <NumberField
+          id="settings-follow-up"
+          label="Follow up after (minutes)"
+          hint="Rows opened with Copy & Open but not marked within this time show under Follow-up. 0 turns this off."
+          value={settings.followUpMinutes}
+          step={5}
+          onChange={(value) => update('followUpMinutes', value)}
+        />
+      </div>
+    </details>
+  );
+}
+
+function NumberField({
+  id,
+  label,
+  hint,
+  value,
+  step = 1,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  hint: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label htmlFor={id} className="flex flex-col gap-1 text-sm">
+      <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">{label}</span>
+      <input
+        id={id}
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(event) => {
+          const next = Number(event.target.value);
+          onChange(Number.isFinite(next) && next >= 0 ? next : 0);
+        }}
+        className="h-11 rounded-xl border border-slate-700 bg-slate-900 px-3 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+      />
+      <span className="text-xs text-slate-500">{hint}</span>
+    </label>
+  );
+}
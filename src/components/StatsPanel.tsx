@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo } from 'react';
+import {
+  formatDuration,
+  outcomesPerDay,
+  outcomesPerWeek,
+  PeriodCounts,
+  reasonRates,
+  sessionStreak,
+  timeToPost,
+  topFailingGroups,
+} from '../lib/analytics';
+import { createTableCsv } from '../lib/csv';
+import { QueueRow } from '../lib/types';
+
+interface StatsPanelProps {
+  rows: QueueRow[];
+  sessionStartedAt: string;
+  /** `table` is a short slug for the file name. */
+  onExport: (table: string, csv: string) => void;
+  onClose: () => void;
+}
+
+interface StatsTable {
+  id: string;
+  title: string;
+  header: string[];
+  rows: (string | number)[][];
+  empty: string;
+}
+
+const PERIOD_HEADER = ['Posted', 'Skipped', 'Failed'];
+
+function periodRows(counts: PeriodCounts[]): (string | number)[][] {
+  return counts.map((item) => [item.start, item.posted, item.skipped, item.failed]);
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+export function StatsPanel({ rows, sessionStartedAt, onExport, onClose }: StatsPanelProps) {
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const stats = useMemo(() => {
+    const perDay = outcomesPerDay(rows);
+    const perWeek = outcomesPerWeek(rows);
+    const reasons = reasonRates(rows);
+    const failing = topFailingGroups(rows);
+    const tables: StatsTable[] = [
+      { id: 'daily', title: 'Last 14 days', header: ['Day', ...PERIOD_HEADER], rows: periodRows(perDay), empty: '' },
+      { id: 'weekly', title: 'Last 8 weeks', header: ['Week of', ...PERIOD_HEADER], rows: periodRows(perWeek), empty: '' },
+      {
+        id: 'reasons',
+        title: 'Skips and failures by reason',
+        header: ['Outcome', 'Reason', 'Count', 'Share of outcomes'],
+        rows: reasons.map((item) => [item.outcome, item.reason, item.count, formatRate(item.rate)]),
+        empty: 'No skips or failures yet.',
+      },
+      {
+        id: 'failing-groups',
+        title: 'Groups with the most failures',
+        header: ['Group', 'URL', 'Failures', 'Last reason'],
+        rows: failing.map((item) => [item.name || 'Untitled group', item.url, item.failures, item.lastReason]),
+        empty: 'No failures yet.',
+      },
+    ];
+    return { tables, timing: timeToPost(rows), streak: sessionStreak(rows, sessionStartedAt) };
+  }, [rows, sessionStartedAt]);
+
+  const { timing, streak } = stats;
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] overflow-y-auto bg-slate-950/80 px-4 pb-10 pt-24 backdrop-blur"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="stats-panel-title"
+        className="mx-auto w-full max-w-4xl space-y-5 rounded-3xl border border-slate-800 bg-slate-950 p-5 shadow-xl shadow-slate-950/60"
+      >
+        <div className="flex items-center justify-between gap-3">
+          <h2 id="stats-panel-title" className="text-xl font-semibold text-white">
+            Stats
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full border border-slate-700 bg-slate-900 px-3 py-1 text-xs font-semibold uppercase tracking-wide"
+          >
+            Close
+          </button>
+        </div>
+        <p className="text-xs text-slate-400">Computed on this device from the history of the rows in this workspace.</p>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          <StatCard
+            label="Copy & Open → Posted"
+            value={timing.averageMs === null ? '—' : formatDuration(timing.averageMs)}
+            detail={
+              timing.medianMs === null
+                ? 'No posts after Copy & Open yet'
+                : `median ${formatDuration(timing.medianMs)} · ${timing.samples} post${timing.samples === 1 ? '' : 's'}`
+            }
+          />
+          <StatCard label="Posted this session" value={String(streak.posted)} detail={`since ${new Date(sessionStartedAt).toLocaleString()}`} />
+          <StatCard label="Current streak" value={String(streak.current)} detail={`best this session: ${streak.best}`} />
+        </div>
+
+        {stats.tables.map((table) => (
+          <section key={table.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <h3 className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">{table.title}</h3>
+              <button
+                type="button"
+                disabled={!table.rows.length}
+                onClick={() => onExport(table.id, createTableCsv(table.header, table.rows))}
+                className="text-xs font-semibold text-sky-300 underline-offset-2 hover:underline disabled:text-slate-600"
+              >
+                Export CSV
+              </button>
+            </div>
+            {table.rows.length ? (
+              <div className="overflow-x-auto rounded-2xl border border-slate-800">
+                <table className="min-w-full divide-y divide-slate-800 text-sm">
+                  <thead className="bg-slate-900/60 text-left text-xs uppercase tracking-wide text-slate-400">
+                    <tr>
+                      {table.header.map((column) => (
+                        <th key={column} className="px-3 py-2">
+                          {column}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800">
+                    {table.rows.map((row, index) => (
+                      <tr key={index}>
+                        {row.map((value, column) => (
+                          <td
+                            key={column}
+                            className={`px-3 py-2 align-top ${typeof value === 'number' ? 'tabular-nums' : 'break-words'} ${
+                              value === 0 ? 'text-slate-600' : 'text-slate-200'
+                            }`}
+                          >
+                            {value}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-400">{table.empty}</p>
+            )}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail: string }) {
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/50 p-4">
+      <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-400">{label}</p>
+      <p className="mt-1 text-2xl font-semibold tabular-nums text-white">{value}</p>
+      <p className="mt-1 text-xs text-slate-500">{detail}</p>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BUILT_IN_VARIABLES, customVariables, RenderedPost, renderTemplate, rowVariables } from '../lib/templates';
+import { PostTemplate, QueueRow } from '../lib/types';
+
+const BUTTON_CLASS =
+  'h-11 rounded-full border border-slate-700 bg-slate-900 px-4 text-xs font-semibold uppercase tracking-wide text-slate-100 shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400 disabled:cursor-not-allowed disabled:text-slate-500';
+
+const INPUT_CLASS =
+  'rounded-xl border border-slate-700 bg-slate-900 px-3 text-sm normal-case tracking-normal text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400';
+
+interface TemplatePanelProps {
+  templates: PostTemplate[];
+  rows: QueueRow[];
+  /** Row used for the live preview when it exists. */
+  currentId: string | null;
+  onCreate: (name: string) => void;
+  onUpdate: (template: PostTemplate) => void;
+  onDelete: (id: string) => void;
+  onAssignAll: (id: string) => void;
+}
+
+export function TemplatePanel({ templates, rows, currentId, onCreate, onUpdate, onDelete, onAssignAll }: TemplatePanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null);
+  const [previewId, setPreviewId] = useState<string | null>(currentId);
+  const selected = templates.find((template) => template.id === selectedId) ?? templates[0] ?? null;
+
+  useEffect(() => {
+    setPreviewId(currentId);
+  }, [currentId]);
+
+  const previewRow = rows.find((row) => row.id === previewId) ?? rows[0] ?? null;
+  const preview = useMemo(
+    () => (selected && previewRow ? renderTemplate(selected.body, rowVariables(previewRow)) : null),
+    [previewRow, selected]
+  );
+  const fields = selected ? customVariables(selected.body) : [];
+
+  const handleCreate = () => {
+    const name = window.prompt('Name for the new template');
+    if (name === null) return;
+    onCreate(name);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    const used = rows.filter((row) => row.templateId === selected.id).length;
+    const warning = used ? ` ${used} row${used === 1 ? '' : 's'} will go back to their own post text.` : '';
+    if (window.confirm(`Delete template "${selected.name}"?${warning}`)) onDelete(selected.id);
+  };
+
+  const handleAssignAll = () => {
+    if (!selected) return;
+    if (window.confirm(`Use "${selected.name}" for all ${rows.length} rows in this workspace?`)) onAssignAll(selected.id);
+  };
+
+  return (
+    <details className="group rounded-3xl border border-slate-800 bg-slate-950/70 p-4 shadow-lg shadow-slate-950/30">
+      <summary className="cursor-pointer list-none text-sm font-semibold uppercase tracking-wide text-slate-200">
+        Post templates{templates.length ? ` (${templates.length})` : ''}
+      </summary>
+      <div className="mt-4 space-y-4">
+        <div className="flex flex-col gap-3 lg:flex-row lg:items-end">
+          {templates.length > 0 && (
+            <label className="flex flex-1 flex-col gap-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+              Template
+              <select
+                value={selected?.id ?? ''}
+                onChange={(event) => setSelectedId(event.target.value)}
+                className={`h-11 ${INPUT_CLASS}`}
+              >
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button type="button" onClick={handleCreate} className={BUTTON_CLASS}>
+              New template
+            </button>
+            <button type="button" onClick={handleAssignAll} disabled={!selected || !rows.length} className={BUTTON_CLASS}>
+              Use for all rows
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={!selected}
+              className={`${BUTTON_CLASS} border-rose-500/60 text-rose-100`}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+
+        {!selected && (
+          <p className="text-sm text-slate-400">
+            Templates let many rows share one post. Use {'{{group_name}}'}, {'{{group_url}}'} or your own variables such as{' '}
+            {'{{link}}'}; each row fills in its own values.
+          </p>
+        )}
+
+        {selected && (
+          <div className="grid gap-4 lg:grid-cols-2">
+            <div className="space-y-3">
+              <label className="flex flex-col gap-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+                Name
+                <input
+                  type="text"
+                  value={selected.name}
+                  onChange={(event) => onUpdate({ ...selected, name: event.target.value })}
+                  className={`h-11 ${INPUT_CLASS}`}
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+                Body
+                <textarea
+                  value={selected.body}
+                  onChange={(event) => onUpdate({ ...selected, body: event.target.value })}
+                  placeholder="Hi {{group_name}}! Check out {{link}}"
+                  className={`min-h-[160px] py-2 ${INPUT_CLASS}`}
+                />
+              </label>
+              <p className="text-xs text-slate-500">
+                Built in: {BUILT_IN_VARIABLES.map((name) => `{{${name}}}`).join(', ')}.
+                {fields.length > 0 && ` Per-row fields: ${fields.join(', ')}.`}
+              </p>
+            </div>
+            <div className="space-y-3">
+              {rows.length > 0 && (
+                <label className="flex flex-col gap-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+                  Preview with
+                  <select
+                    value={previewRow?.id ?? ''}
+                    onChange={(event) => setPreviewId(event.target.value)}
+                    className={`h-11 ${INPUT_CLASS}`}
+                  >
+                    {rows.map((row) => (
+                      <option key={row.id} value={row.id}>
+                        {row.name || row.url || 'Untitled group'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <div className="min-h-[160px] rounded-2xl border border-slate-800 bg-slate-900/50 p-3 text-sm text-slate-100">
+                {preview ? (
+                  <p className="whitespace-pre-wrap">{preview.text || 'Template is empty.'}</p>
+                ) : (
+                  <p className="text-slate-500">Add rows to preview this template.</p>
+                )}
+              </div>
+              {preview && <MissingVariables missing={preview.missing} />}
+            </div>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+}
+
+interface RowTemplateProps {
+  row: QueueRow;
+  templates: PostTemplate[];
+  rendered: RenderedPost;
+  onChange: (patch: Pick<QueueRow, 'templateId' | 'fields'>) => void;
+}
+
+/** Template picker and per-row variable inputs shown under a row's post text. */
+export function RowTemplate({ row, templates, rendered, onChange }: RowTemplateProps) {
+  if (!templates.length && !row.templateId) return null;
+  const fields = rendered.template ? customVariables(rendered.template.body) : [];
+
+  return (
+    <div className="space-y-2 text-xs">
+      <label className="flex items-center gap-2 font-semibold uppercase tracking-wide text-slate-400">
+        Template
+        <select
+          value={rendered.template?.id ?? ''}
+          onChange={(event) => onChange({ templateId: event.target.value || undefined, fields: row.fields })}
+          className={`h-9 flex-1 ${INPUT_CLASS}`}
+        >
+          <option value="">None — use own text</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      {fields.map((name) => (
+        <label key={name} className="flex items-center gap-2 font-semibold text-slate-400">
+          <span className="w-24 shrink-0 truncate font-mono">{name}</span>
+          <input
+            type="text"
+            value={row.fields?.[name] ?? ''}
+            onChange={(event) =>
+              onChange({ templateId: row.templateId, fields: { ...row.fields, [name]: event.target.value } })
+            }
+            className={`h-9 flex-1 ${INPUT_CLASS}`}
+          />
+        </label>
+      ))}
+      <MissingVariables missing={rendered.missing} />
+    </div>
+  );
+}
+
+function MissingVariables({ missing }: { missing: string[] }) {
+  if (!missing.length) return null;
+  return (
+    <p className="rounded-2xl border border-rose-500/50 bg-rose-500/10 px-3 py-2 text-xs text-rose-100">
+      Missing {missing.length === 1 ? 'value' : 'values'} for {missing.map((name) => `{{${name}}}`).join(', ')}. Copy &amp; Open
+      is blocked until {missing.length === 1 ? 'it is' : 'they are'} filled in.
+    </p>
+  );
+}
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Workspace } from '../lib/types';
+
+interface WorkspaceBarProps {
+  workspaces: Workspace[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+}
+
+const BUTTON_CLASS =
+  'h-11 rounded-full border border-slate-700 bg-slate-900 px-4 text-xs font-semibold uppercase tracking-wide text-slate-100 shadow focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400';
+
+export function WorkspaceBar({
+  workspaces,
+  activeId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onArchive,
+  onDelete,
+}: WorkspaceBarProps) {
+  const [showArchived, setShowArchived] = useState(false);
+  const active = workspaces.find((workspace) => workspace.id === activeId);
+  const open = workspaces.filter((workspace) => !workspace.archived);
+  const archived = workspaces.filter((workspace) => workspace.archived);
+
+  const handleCreate = () => {
+    const name = window.prompt('Name for the new workspace');
+    if (name !== null) onCreate(name);
+  };
+
+  const handleRename = () => {
+    if (!active) return;
+    const name = window.prompt('Rename workspace', active.name);
+    if (name !== null) onRename(active.id, name);
+  };
+
+  const handleDelete = (workspace: Workspace) => {
+    const rows = workspace.rows.length;
+    if (window.confirm(`Delete "${workspace.name}" and its ${rows} row${rows === 1 ? '' : 's'}? This cannot be undone.`)) {
+      onDelete(workspace.id);
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-950/70 p-4 shadow-lg shadow-slate-950/30">
+      <div className="flex flex-col gap-3 lg:flex-row lg:items-center">
+        <label className="flex flex-1 flex-col gap-1 text-[11px] font-semibold uppercase tracking-wide text-slate-400">
+          Workspace
+          <select
+            value={activeId}
+            onChange={(event) => onSwitch(event.target.value)}
+            className="h-11 rounded-full border border-slate-700 bg-slate-900 px-4 text-sm normal-case tracking-normal text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-sky-400"
+          >
+            {open.map((workspace) => (
+              <option key={workspace.id} value={workspace.id}>
+                {workspace.name} ({workspace.rows.length})
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex flex-wrap gap-2 lg:self-end">
+          <button type="button" onClick={handleCreate} className={BUTTON_CLASS}>
+            New
+          </button>
+          <button type="button" onClick={handleRename} className={BUTTON_CLASS}>
+            Rename
+          </button>
+          <button type="button" onClick={() => onDuplicate(activeId)} className={BUTTON_CLASS}>
+            Duplicate
+          </button>
+          <button type="button" onClick={() => onArchive(activeId, true)} className={BUTTON_CLASS}>
+            Archive
+          </button>
+          <button
+            type="button"
+            onClick={() => active && handleDelete(active)}
+            className={`${BUTTON_CLASS} border-rose-500/60 text-rose-100`}
+          >
+            Delete
+          </button>
+          {archived.length > 0 && (
+            <button type="button" onClick={() => setShowArchived((prev) => !prev)} className={BUTTON_CLASS}>
+              {showArchived ? 'Hide archived' : `Archived (${archived.length})`}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showArchived && archived.length > 0 && (
+        <ul className="mt-3 space-y-2 text-sm">
+          {archived.map((workspace) => (
+            <li
+              key={workspace.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-slate-800 bg-slate-900/50 px-4 py-2"
+            >
+              <span>
+                {workspace.name} <span className="text-xs text-slate-500">({workspace.rows.length} rows)</span>
+              </span>
+              <span className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => onArchive(workspace.id, false)}
+                  className="text-xs font-semibold text-sky-300 underline-offset-2 hover:underline"
+                >
+                  Restore
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(workspace)}
+                  className="text-xs font-semibold text-rose-300 underline-offset-2 hover:underline"
+                >
+                  Delete
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,186 @@
+import { groupKey } from './cooldown';
+import { describeFailure, parseFailureNote } from './failures';
+import { QueueRow, RowHistoryEntry } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Outcome = 'posted' | 'skipped' | 'failed';
+
+export interface PeriodCounts {
+  /** Local date of the day, or of the Monday starting the week, as YYYY-MM-DD. */
+  start: string;
+  posted: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface TimeToPost {
+  /** Mean milliseconds from Copy & Open to the next Mark Posted on the same row, or null with no samples. */
+  averageMs: number | null;
+  medianMs: number | null;
+  samples: number;
+}
+
+export interface ReasonRate {
+  outcome: Exclude<Outcome, 'posted'>;
+  reason: string;
+  count: number;
+  /** Share of all outcomes recorded, 0–1. */
+  rate: number;
+}
+
+export interface FailingGroup {
+  name: string;
+  url: string;
+  failures: number;
+  lastReason: string;
+}
+
+export interface SessionStreak {
+  posted: number;
+  /** Consecutive Mark Posted actions since the last skip or failure in this session. */
+  current: number;
+  best: number;
+}
+
+interface TimedEntry extends RowHistoryEntry {
+  time: number;
+  row: QueueRow;
+}
+
+function isOutcome(action: RowHistoryEntry['action']): action is Outcome {
+  return action === 'posted' || action === 'skipped' || action === 'failed';
+}
+
+function timedEntries(rows: QueueRow[]): TimedEntry[] {
+  return rows
+    .flatMap((row) => row.history.map((entry) => ({ ...entry, time: Date.parse(entry.at), row })))
+    .filter((entry) => !Number.isNaN(entry.time))
+    .sort((a, b) => a.time - b.time);
+}
+
+function localDateKey(time: number): string {
+  const date = new Date(time);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function startOfLocalDay(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function startOfLocalWeek(time: number): number {
+  const date = new Date(startOfLocalDay(time));
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+}
+
+function countOutcomes(
+  rows: QueueRow[],
+  periods: number,
+  startOf: (time: number) => number,
+  previous: (start: number) => number,
+  now: number
+): PeriodCounts[] {
+  const starts: number[] = [startOf(now)];
+  while (starts.length < periods) starts.unshift(previous(starts[0]));
+  const counts = starts.map((start) => ({ start: localDateKey(start), posted: 0, skipped: 0, failed: 0 }));
+  const byStart = new Map(starts.map((start, index) => [start, counts[index]]));
+  timedEntries(rows).forEach((entry) => {
+    if (!isOutcome(entry.action)) return;
+    const bucket = byStart.get(startOf(entry.time));
+    if (bucket) bucket[entry.action] += 1;
+  });
+  return counts;
+}
+
+/** Outcomes per local day for the last `days` days, oldest first. */
+export function outcomesPerDay(rows: QueueRow[], days = 14, now = Date.now()): PeriodCounts[] {
+  return countOutcomes(rows, days, startOfLocalDay, (start) => startOfLocalDay(start - DAY_MS / 2), now);
+}
+
+/** Outcomes per week (Monday to Sunday) for the last `weeks` weeks, oldest first. */
+export function outcomesPerWeek(rows: QueueRow[], weeks = 8, now = Date.now()): PeriodCounts[] {
+  return countOutcomes(rows, weeks, startOfLocalWeek, (start) => startOfLocalWeek(start - DAY_MS), now);
+}
+
+/** Pairs each Mark Posted with the latest Copy & Open on that row since its previous outcome. */
+export function timeToPost(rows: QueueRow[]): TimeToPost {
+  const durations: number[] = [];
+  rows.forEach((row) => {
+    let openedAt: number | null = null;
+    row.history.forEach((entry) => {
+      const time = Date.parse(entry.at);
+      if (Number.isNaN(time)) return;
+      if (entry.action === 'opened') {
+        openedAt = time;
+      } else if (isOutcome(entry.action) || entry.action === 'pending') {
+        if (entry.action === 'posted' && openedAt !== null && time >= openedAt) durations.push(time - openedAt);
+        openedAt = null;
+      }
+    });
+  });
+  if (!durations.length) return { averageMs: null, medianMs: null, samples: 0 };
+  const sorted = [...durations].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    averageMs: durations.reduce((sum, value) => sum + value, 0) / durations.length,
+    medianMs: sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    samples: durations.length,
+  };
+}
+
+/** Skips and failures by reason as a share of every posted, skipped or failed action. */
+export function reasonRates(rows: QueueRow[]): ReasonRate[] {
+  const outcomes = timedEntries(rows).filter((entry) => isOutcome(entry.action));
+  const counts = new Map<string, ReasonRate>();
+  outcomes.forEach((entry) => {
+    if (entry.action !== 'skipped' && entry.action !== 'failed') return;
+    const reason = entry.action === 'failed' ? describeFailure(parseFailureNote(entry.note)) : entry.note?.trim() || 'No reason';
+    const key = `${entry.action}|${reason}`;
+    const current = counts.get(key) ?? { outcome: entry.action, reason, count: 0, rate: 0 };
+    counts.set(key, { ...current, count: current.count + 1 });
+  });
+  return [...counts.values()]
+    .map((item) => ({ ...item, rate: item.count / outcomes.length }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/** Groups with the most Mark Failed actions, most first. */
+export function topFailingGroups(rows: QueueRow[], limit = 5): FailingGroup[] {
+  const groups = new Map<string, FailingGroup>();
+  timedEntries(rows).forEach((entry) => {
+    if (entry.action !== 'failed') return;
+    const key = groupKey(entry.row);
+    const current = groups.get(key) ?? { name: entry.row.name, url: entry.row.url, failures: 0, lastReason: '' };
+    groups.set(key, { ...current, failures: current.failures + 1, lastReason: describeFailure(parseFailureNote(entry.note)) });
+  });
+  return [...groups.values()].sort((a, b) => b.failures - a.failures).slice(0, limit);
+}
+
+export function sessionStreak(rows: QueueRow[], sessionStartedAt: string): SessionStreak {
+  const start = Date.parse(sessionStartedAt);
+  const streak: SessionStreak = { posted: 0, current: 0, best: 0 };
+  timedEntries(rows).forEach((entry) => {
+    if (entry.time < start || !isOutcome(entry.action)) return;
+    if (entry.action === 'posted') {
+      streak.posted += 1;
+      streak.current += 1;
+      streak.best = Math.max(streak.best, streak.current);
+    } else {
+      streak.current = 0;
+    }
+  });
+  return streak;
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.max(1, Math.round(ms / 1000))}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+}
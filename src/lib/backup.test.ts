@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createBackup, parseBackup } from './backup';
+import { SerializableRow } from './csv';
+
+const rows: SerializableRow[] = [
+  {
+    id: 'a',
+    name: 'Folsom "Community" 🏡',
+    url: 'https://www.facebook.com/groups/355271864659430/',
+    ad: '  Hi neighbors,\r\nLoki and I are sharing resources 💛\n',
+    status: 'posted',
+    history: [
+      { at: '2024-05-01T10:00:00.000Z', action: 'copied', copyMethod: 'fallback', copySucceeded: true },
+      { at: '2024-05-01T10:00:01.000Z', action: 'opened' },
+      { at: '2024-05-01T10:05:00.000Z', action: 'checked', answer: 'posted' },
+      { at: '2024-05-01T10:05:00.000Z', action: 'posted', note: 'done, "finally"' },
+    ],
+    lastChangedAt: '2024-05-01T10:05:00.000Z',
+    rules: 'No links\nSundays only',
+    tags: ['no links'],
+    membership: 'member',
+    templateId: 't1',
+    fields: { link: 'https://gofund.me/9aada7036' },
+  },
+  { id: 'b', name: '', url: '', ad: '', status: 'pending', history: [] },
+];
+
+describe('createBackup and parseBackup', () => {
+  it('restore rows, the current row and templates exactly', () => {
+    const templates = [{ id: 't1', name: 'Fundraiser', body: 'Hi {{group_name}}: {{link}}' }];
+    const restored = parseBackup(createBackup(rows, 'a', templates));
+    expect(restored.rows).toEqual(rows);
+    expect(restored.currentId).toBe('a');
+    expect(restored.templates).toEqual(templates);
+  });
+
+  it('drops a current row that is not in the backup', () => {
+    expect(parseBackup(createBackup(rows, 'missing')).currentId).toBeNull();
+  });
+
+  it('skips rows without an ID and fills in missing fields', () => {
+    const restored = parseBackup(JSON.stringify({ rows: [{ name: 'No ID' }, { id: 'c', status: 'unknown', history: [{}] }] }));
+    expect(restored.rows).toEqual([{ id: 'c', name: '', url: '', ad: '', status: 'pending', history: [] }]);
+  });
+
+  it('rejects invalid JSON, missing rows and newer versions', () => {
+    expect(() => parseBackup('{')).toThrow('not valid JSON');
+    expect(() => parseBackup('{}')).toThrow('does not contain any rows');
+    expect(() => parseBackup(JSON.stringify({ version: 99, rows: [] }))).toThrow('newer than this app supports');
+  });
+});
@@ -0,0 +1,113 @@
+import { SerializableRow } from './csv';
+import { parseMembership } from './groupRules';
+import { PostTemplate, RowHistoryEntry, RowStatusKind } from './types';
+
+export interface BackupPayload {
+  app: 'paste-happy';
+  version: number;
+  exportedAt: string;
+  currentId: string | null;
+  rows: SerializableRow[];
+  templates?: PostTemplate[];
+}
+
+const BACKUP_VERSION = 1;
+
+export function createBackup(rows: SerializableRow[], currentId: string | null, templates: PostTemplate[] = []): string {
+  const payload: BackupPayload = {
+    app: 'paste-happy',
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    currentId,
+    rows: rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      ad: row.ad,
+      status: row.status,
+      history: row.history ?? [],
+      lastChangedAt: row.lastChangedAt,
+      rules: row.rules,
+      tags: row.tags,
+      membership: row.membership,
+      templateId: row.templateId,
+      fields: row.fields,
+    })),
+    templates,
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+export function parseBackup(input: string): BackupPayload {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch (error) {
+    throw new Error('Backup file is not valid JSON.');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as BackupPayload).rows)) {
+    throw new Error('Backup file does not contain any rows.');
+  }
+
+  const payload = parsed as Partial<BackupPayload>;
+  if (typeof payload.version === 'number' && payload.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${payload.version} is newer than this app supports.`);
+  }
+
+  const rows = (payload.rows ?? []).map(toSerializableRow).filter((row): row is SerializableRow => row !== null);
+  const currentId =
+    typeof payload.currentId === 'string' && rows.some((row) => row.id === payload.currentId) ? payload.currentId : null;
+
+  return {
+    app: 'paste-happy',
+    version: BACKUP_VERSION,
+    exportedAt: typeof payload.exportedAt === 'string' ? payload.exportedAt : '',
+    currentId,
+    rows,
+    templates: Array.isArray(payload.templates) ? payload.templates.filter(isTemplate) : [],
+  };
+}
+
+function toSerializableRow(value: unknown): SerializableRow | null {
+  if (!value || typeof value !== 'object') return null;
+  const row = value as Record<string, unknown>;
+  if (typeof row.id !== 'string' || !row.id) return null;
+
+  return {
+    id: row.id,
+    name: typeof row.name === 'string' ? row.name : '',
+    url: typeof row.url === 'string' ? row.url : '',
+    ad: typeof row.ad === 'string' ? row.ad : '',
+    status: isValidStatus(row.status) ? row.status : 'pending',
+    history: Array.isArray(row.history) ? row.history.filter(isHistoryEntry) : [],
+    lastChangedAt: typeof row.lastChangedAt === 'string' ? row.lastChangedAt : undefined,
+    rules: typeof row.rules === 'string' ? row.rules : undefined,
+    tags: Array.isArray(row.tags) ? row.tags.filter((tag): tag is string => typeof tag === 'string') : undefined,
+    membership: typeof row.membership === 'string' ? parseMembership(row.membership) : undefined,
+    templateId: typeof row.templateId === 'string' ? row.templateId : undefined,
+    fields: isStringRecord(row.fields) ? row.fields : undefined,
+  };
+}
+
+function isTemplate(value: unknown): value is PostTemplate {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return typeof candidate.id === 'string' && typeof candidate.name === 'string' && typeof candidate.body === 'string';
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every((item) => typeof item === 'string')
+  );
+}
+
+function isHistoryEntry(entry: unknown): entry is RowHistoryEntry {
+  if (!entry || typeof entry !== 'object') return false;
+  const candidate = entry as Record<string, unknown>;
+  return typeof candidate.at === 'string' && typeof candidate.action === 'string';
+}
+
+function isValidStatus(status: unknown): status is RowStatusKind {
+  return typeof status === 'string' && ['pending', 'posted', 'skipped', 'failed'].includes(status);
+}
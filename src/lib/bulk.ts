@@ -0,0 +1,86 @@
+import { QueueRow, RowStatusKind } from './types';
+
+/** Sets the status of every selected row, recording one history entry per row. */
+export function setRowsStatus(
+  rows: QueueRow[],
+  ids: Set<string>,
+  status: RowStatusKind,
+  note?: string,
+  now = new Date().toISOString()
+): QueueRow[] {
+  if (!ids.size) return rows;
+  return rows.map((row) =>
+    ids.has(row.id)
+      ? {
+          ...row,
+          status,
+          lastChangedAt: now,
+          history: [...row.history, { action: status, at: now, note }],
+        }
+      : row
+  );
+}
+
+export function deleteRows(rows: QueueRow[], ids: Set<string>): QueueRow[] {
+  return rows.filter((row) => !ids.has(row.id));
+}
+
+export interface ReplaceOptions {
+  matchCase: boolean;
+}
+
+/** Replaces every occurrence of `find` in the selected rows' post text. */
+export function replaceInPosts(
+  rows: QueueRow[],
+  ids: Set<string>,
+  find: string,
+  replacement: string,
+  options: ReplaceOptions
+): { rows: QueueRow[]; changed: number } {
+  if (!find) return { rows, changed: 0 };
+  const pattern = new RegExp(escapeRegExp(find), options.matchCase ? 'g' : 'gi');
+  let changed = 0;
+  const next = rows.map((row) => {
+    if (!ids.has(row.id)) return row;
+    const ad = row.ad.replace(pattern, () => replacement);
+    if (ad === row.ad) return row;
+    changed += 1;
+    return { ...row, ad };
+  });
+  return { rows: changed ? next : rows, changed };
+}
+
+/**
+ * Moves the selected rows, keeping their relative order, so the first one lands at
+ * `position` (1-based) among the rows that were not moved. Out-of-range positions clamp.
+ */
+export function moveRows(rows: QueueRow[], ids: Set<string>, position: number): QueueRow[] {
+  const moving = rows.filter((row) => ids.has(row.id));
+  if (!moving.length) return rows;
+  const rest = rows.filter((row) => !ids.has(row.id));
+  const index = Math.min(Math.max(Math.floor(position) - 1, 0), rest.length);
+  return [...rest.slice(0, index), ...moving, ...rest.slice(index)];
+}
+
+/** Moves one row to the position of `targetId`, landing after it when moving down and before it when moving up. */
+export function moveRowTo(rows: QueueRow[], id: string, targetId: string): QueueRow[] {
+  const from = rows.findIndex((row) => row.id === id);
+  const to = rows.findIndex((row) => row.id === targetId);
+  if (from === -1 || to === -1 || from === to) return rows;
+  const next = [...rows];
+  const [row] = next.splice(from, 1);
+  next.splice(to, 0, row);
+  return next;
+}
+
+/** IDs between `anchorId` and `targetId` inclusive, in the order of `orderedIds`. */
+export function selectRange(orderedIds: string[], anchorId: string, targetId: string): string[] {
+  const start = orderedIds.indexOf(anchorId);
+  const end = orderedIds.indexOf(targetId);
+  if (start === -1 || end === -1) return [targetId];
+  return orderedIds.slice(Math.min(start, end), Math.max(start, end) + 1);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,8 +1,10 @@
+import { CopyMethod } from './types';
+
 export type ClipboardPermissionState = PermissionState | 'unsupported';
 
 export interface CopyResult {
   success: boolean;
-  method: 'navigator' | 'fallback';
+  method: CopyMethod;
   error?: unknown;
 }
 
@@ -0,0 +1,16 @@
+import { CsvColumnMapping } from './csv';
+import { loadState, saveState } from './storage';
+
+const COLUMN_MAPPINGS_KEY = 'paste-happy-column-mappings';
+
+type SavedMappings = Record<string, CsvColumnMapping>;
+
+export function loadColumnMapping(signature: string): CsvColumnMapping | null {
+  const saved = loadState<SavedMappings>(COLUMN_MAPPINGS_KEY, {});
+  return saved[signature] ?? null;
+}
+
+export function saveColumnMapping(signature: string, mapping: CsvColumnMapping): void {
+  const saved = loadState<SavedMappings>(COLUMN_MAPPINGS_KEY, {});
+  saveState<SavedMappings>(COLUMN_MAPPINGS_KEY, { ...saved, [signature]: mapping });
+}
@@ -0,0 +1,46 @@
+export type CommandGroup = 'Queue' | 'Filter' | 'Data' | 'General';
+
+export interface Command {
+  id: string;
+  label: string;
+  group: CommandGroup;
+  /**
+   * Single key such as `j` or `?`, or `mod+<key>` / `mod+shift+<key>` for Ctrl on
+   * Windows/Linux and ⌘ on macOS.
+   */
+  shortcut?: string;
+  /** Leave the shortcut to text fields while typing, e.g. so Ctrl+Z still undoes typing. */
+  yieldToInputs?: boolean;
+  disabled?: boolean;
+  run: () => void;
+}
+
+export const COMMAND_GROUPS: CommandGroup[] = ['Queue', 'Filter', 'Data', 'General'];
+
+export function matchesShortcut(event: KeyboardEvent, shortcut: string): boolean {
+  if (shortcut.startsWith('mod+')) {
+    const parts = shortcut.slice(4).split('+');
+    const key = parts[parts.length - 1];
+    const shift = parts.includes('shift');
+    return (event.ctrlKey || event.metaKey) && !event.altKey && event.shiftKey === shift && event.key.toLowerCase() === key;
+  }
+  if (event.ctrlKey || event.metaKey || event.altKey) return false;
+  return event.key.length === 1 && event.key.toLowerCase() === shortcut.toLowerCase();
+}
+
+/** Plain-key shortcuts must not fire while the user is typing. */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  const tag = target.tagName;
+  return tag === 'TEXTAREA' || tag === 'SELECT' || (tag === 'INPUT' && !['checkbox', 'radio', 'button'].includes((target as HTMLInputElement).type));
+}
+
+export function formatShortcut(shortcut: string): string {
+  if (!shortcut.startsWith('mod+')) return shortcut;
+  const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+  const parts = shortcut.slice(4).split('+');
+  const key = parts[parts.length - 1].toUpperCase();
+  if (!parts.includes('shift')) return `${isMac ? '⌘' : 'Ctrl+'}${key}`;
+  return isMac ? `⇧⌘${key}` : `Ctrl+Shift+${key}`;
+}
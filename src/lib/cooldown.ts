@@ -0,0 +1,44 @@
+import { QueueRow } from './types';
+import { canonicalUrl } from './url';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Most recent `posted` time per group, in epoch milliseconds. */
+export type PostIndex = Map<string, number>;
+
+/** Rows pointing at the same group share a key: the URL when present, otherwise the name. */
+export function groupKey(row: Pick<QueueRow, 'name' | 'url'>): string {
+  const url = canonicalUrl(row.url);
+  return url ? `url:${url}` : `name:${row.name.trim().toLowerCase()}`;
+}
+
+export function buildPostIndex(rows: QueueRow[], base?: PostIndex): PostIndex {
+  const index: PostIndex = new Map(base);
+  rows.forEach((row) => {
+    const posted = lastPostedAt(row);
+    if (posted === null) return;
+    const key = groupKey(row);
+    if (posted > (index.get(key) ?? 0)) index.set(key, posted);
+  });
+  return index;
+}
+
+export function lastPostedAt(row: QueueRow): number | null {
+  for (let i = row.history.length - 1; i >= 0; i -= 1) {
+    const entry = row.history[i];
+    if (entry.action === 'posted') {
+      const time = Date.parse(entry.at);
+      if (!Number.isNaN(time)) return time;
+    }
+  }
+  return null;
+}
+
+/** Returns when the row's group leaves its cooldown, or null if it can be posted now. */
+export function cooldownUntil(row: QueueRow, index: PostIndex, cooldownDays: number, now = Date.now()): number | null {
+  if (cooldownDays <= 0) return null;
+  const posted = index.get(groupKey(row));
+  if (posted === undefined) return null;
+  const until = posted + cooldownDays * DAY_MS;
+  return until > now ? until : null;
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { createCsv, parseCsvImport, parseCsvRows, SerializableRow } from './csv';
+import { RowHistoryEntry, RowStatusKind } from './types';
+
+const STATUSES: RowStatusKind[] = ['pending', 'posted', 'skipped', 'failed'];
+const PIECES = ['a', 'Zz', ' ', '  ', ',', ';', '\t', '"', '""', "'", '\n', '\r\n', '😀', '👩‍👧', '🇺🇸', 'é', '—', '{{group_name}}', '[LINK]', 'https://gofund.me/x?a=1,2'];
+
+/** Small seeded generator so a failing case can be reproduced. */
+function createRandom(seed: number): () => number {
+  let value = seed;
+  return () => {
+    value = (value * 1664525 + 1013904223) % 4294967296;
+    return value / 4294967296;
+  };
+}
+
+function randomText(random: () => number, maxPieces: number): string {
+  const count = Math.floor(random() * (maxPieces + 1));
+  let text = '';
+  for (let i = 0; i < count; i += 1) text += PIECES[Math.floor(random() * PIECES.length)];
+  return text;
+}
+
+function randomRow(random: () => number, index: number): SerializableRow {
+  const history: RowHistoryEntry[] = [];
+  const historyCount = Math.floor(random() * 3);
+  for (let i = 0; i < historyCount; i += 1) {
+    history.push({ at: new Date(Date.UTC(2024, 0, 1 + i)).toISOString(), action: 'posted', note: randomText(random, 4) });
+  }
+  return {
+    id: `row-${index}-${Math.floor(random() * 1e6)}`,
+    // Group names are trimmed on import, so they only get inner whitespace here.
+    name: `Group ${randomText(random, 6)} ${index}`,
+    url: `https://www.facebook.com/groups/${1000 + index}/`,
+    ad: randomText(random, 12),
+    status: STATUSES[Math.floor(random() * STATUSES.length)],
+    history,
+    lastChangedAt: history.length ? history[history.length - 1].at : undefined,
+  };
+}
+
+describe('createCsv and parseCsvRows', () => {
+  it('round-trip random rows with quotes, newlines and emoji', () => {
+    const random = createRandom(42);
+    for (let round = 0; round < 50; round += 1) {
+      const rows = Array.from({ length: 1 + Math.floor(random() * 8) }, (_, index) => randomRow(random, index));
+      const parsed = parseCsvRows(createCsv(rows));
+      expect(parsed).toHaveLength(rows.length);
+      parsed.forEach((row, index) => {
+        const original = rows[index];
+        expect(row).toMatchObject({
+          id: original.id,
+          name: original.name,
+          url: original.url,
+          ad: original.ad,
+          status: original.status,
+          lastChangedAt: original.lastChangedAt,
+        });
+        expect(row.history).toEqual(original.history);
+      });
+    }
+  });
+
+  it('keeps post text verbatim, including surrounding whitespace', () => {
+    const ads = ['  leading spaces', 'trailing newline\n', '\n\nblank lines first', 'tab\tinside ', ' '];
+    const rows = ads.map((ad, index) => ({ ...randomRow(createRandom(index), index), ad }));
+    expect(parseCsvRows(createCsv(rows)).map((row) => row.ad)).toEqual(ads);
+  });
+
+  it('round-trips rules, tags, membership, templates and fields', () => {
+    const row: SerializableRow = {
+      ...randomRow(createRandom(7), 0),
+      rules: 'No links on weekdays, "promo" posts only on Sunday',
+      tags: ['no links', 'promo day: Sunday'],
+      membership: 'requested',
+      templateId: 't1',
+      fields: { link: 'https://gofund.me/abc', first_name: 'Loki 🐶' },
+    };
+    const [parsed] = parseCsvRows(createCsv([row], [{ id: 't1', name: 'Fundraiser, short', body: '{{link}}' }]));
+    expect(parsed).toMatchObject({
+      rules: row.rules,
+      tags: row.tags,
+      membership: 'requested',
+      template: 'Fundraiser, short',
+      fields: row.fields,
+    });
+  });
+
+  it('reads CRLF files and reports no problems for its own output', () => {
+    const rows = [randomRow(createRandom(3), 0), randomRow(createRandom(4), 1)];
+    const result = parseCsvImport(createCsv(rows).replace(/\n(?=row-)/g, '\r\n'));
+    expect(result.diagnostics).toEqual([]);
+    expect(result.rows.map((row) => row.id)).toEqual(rows.map((row) => row.id));
+  });
+});
+
+describe('parseCsvImport', () => {
+  it.each([
+    ['semicolon', 'Group name;URL;Post\nA;https://x.com/1;Hi, friends\nB;https://x.com/2;"a;b"\n', ';'],
+    ['tab', 'name\turl\tad\nA\thttps://x.com/1\tHi, friends\nB\thttps://x.com/2\ta;b\n', '\t'],
+  ])('detects %s-delimited files', (_label, input, delimiter) => {
+    const result = parseCsvImport(input);
+    expect(result.delimiter).toBe(delimiter);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.rows.map((row) => [row.name, row.url, row.ad])).toEqual([
+      ['A', 'https://x.com/1', 'Hi, friends'],
+      ['B', 'https://x.com/2', 'a;b'],
+    ]);
+  });
+
+  it('keeps CRLF inside a quoted field and counts its lines', () => {
+    const result = parseCsvImport('name,url,ad\r\nA,https://x.com/1,"line one\r\nline two"\r\nB,,next\r\n');
+    expect(result.rows.map((row) => row.ad)).toEqual(['line one\r\nline two', 'next']);
+    expect(result.diagnostics).toEqual([{ line: 4, severity: 'warning', problem: 'Row has no group URL.' }]);
+  });
+
+  it('treats an unterminated quote as text and keeps the rows after it', () => {
+    const result = parseCsvImport('name,url,ad\nA,https://x.com/1,"two\nlines"\nB,https://x.com/2,"unclosed text\nC,https://x.com/3,fine\n');
+    expect(result.rows.map((row) => [row.name, row.ad])).toEqual([
+      ['A', 'two\nlines'],
+      ['B', '"unclosed text'],
+      ['C', 'fine'],
+    ]);
+    expect(result.diagnostics).toEqual([{ line: 4, severity: 'warning', problem: 'Unterminated quoted field; quote treated as text.' }]);
+  });
+
+  it('keeps text after a closing quote and warns about it', () => {
+    const result = parseCsvImport('name,url,ad\nA,https://x.com/1,"quoted" tail\n');
+    expect(result.rows[0].ad).toBe('quoted tail');
+    expect(result.diagnostics).toEqual([{ line: 2, severity: 'warning', problem: 'Unexpected text after a closing quote.' }]);
+  });
+
+  it('reports column counts, missing URLs and empty rows by line', () => {
+    const result = parseCsvImport('name,url,ad\nA,https://x.com/1\nB,,hello\n,,\nC,https://x.com/3,hi,extra\n');
+    expect(result.rows.map((row) => row.name)).toEqual(['A', 'B', 'C']);
+    expect(result.recordCount).toBe(4);
+    expect(result.diagnostics).toEqual([
+      { line: 2, severity: 'warning', problem: 'Expected 3 columns but found 2.' },
+      { line: 3, severity: 'warning', problem: 'Row has no group URL.' },
+      { line: 4, severity: 'error', problem: 'Row has no group name, URL or post text and was skipped.' },
+      { line: 5, severity: 'warning', problem: 'Expected 3 columns but found 4.' },
+    ]);
+  });
+
+  it('reports a header without the columns it needs', () => {
+    expect(parseCsvImport('status,notes\npending,hi\n').diagnostics).toEqual(
+      expect.arrayContaining([
+        { line: 1, severity: 'error', problem: 'Header has no group name or URL column.' },
+        { line: 1, severity: 'warning', problem: 'Header has no post text column.' },
+      ])
+    );
+  });
+});
@@ -1,38 +1,202 @@
-import { RowHistoryEntry, RowStatusKind } from './types';
+import { formatTags, parseMembership, parseTags } from './groupRules';
+import { normalizeVariableName } from './templates';
+import { GroupMembership, PostTemplate, RowHistoryEntry, RowStatusKind } from './types';
 
+/** Fields the file has no column for are undefined, so existing values are kept on merge. */
 export interface ParsedCsvRow {
   id?: string;
-  name: string;
-  url: string;
-  ad: string;
+  name?: string;
+  url?: string;
+  ad?: string;
   status?: RowStatusKind;
   history?: RowHistoryEntry[];
+  lastChangedAt?: string;
+  rules?: string;
+  tags?: string[];
+  membership?: GroupMembership;
+  /** Template name or ID as written in the file. */
+  template?: string;
+  fields?: Record<string, string>;
 }
 
 const HEADER_MAP = {
   name: ['group name', 'name'],
-  url: ['group url', 'url'],
+  url: ['group url', 'url', 'group link', 'link'],
   ad: ['ad', 'ad text', 'post', 'post text'],
   status: ['status'],
   history: ['history', 'log', 'logs'],
   id: ['id'],
+  lastChangedAt: ['last changed at', 'last changed', 'updated at'],
+  rules: ['rules', 'group rules', 'notes'],
+  tags: ['tags', 'labels'],
+  membership: ['membership', 'membership status', 'member status'],
+  template: ['template', 'template name'],
 } as const;
 
-type HeaderKey = keyof typeof HEADER_MAP;
+/** Columns named `Field: <name>` hold per-row template variables. */
+const FIELD_COLUMN_PATTERN = /^\s*field\s*:\s*(.+?)\s*$/i;
+
+export type CsvField = keyof typeof HEADER_MAP;
+
+export const CSV_FIELDS = Object.keys(HEADER_MAP) as CsvField[];
+
+/** Column index for each field; missing fields are not imported. */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+const DELIMITER_CANDIDATES: CsvDelimiter[] = [',', ';', '\t'];
+
+export interface CsvDiagnostic {
+  /** 1-based line in the source file where the affected record starts. */
+  line: number;
+  severity: 'warning' | 'error';
+  problem: string;
+}
+
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+export interface CsvTable {
+  header: string[];
+  /** Data records after the header, blank lines removed. */
+  records: CsvRecord[];
+  headerLine: number;
+  delimiter: CsvDelimiter;
+  diagnostics: CsvDiagnostic[];
+}
+
+export interface CsvImportResult {
+  rows: ParsedCsvRow[];
+  delimiter: CsvDelimiter;
+  diagnostics: CsvDiagnostic[];
+  /** Number of data records found after the header, including dropped ones. */
+  recordCount: number;
+}
 
 export function parseCsvRows(input: string): ParsedCsvRow[] {
-  const rows = parseCsv(input);
-  if (!rows.length) return [];
-  const header = rows[0].map((h) => h.trim().toLowerCase());
-  const indexLookup = new Map<HeaderKey, number>();
-  (Object.keys(HEADER_MAP) as HeaderKey[]).forEach((key) => {
-    indexLookup.set(key, findHeaderIndex(header, HEADER_MAP[key]));
+  return parseCsvImport(input).rows;
+}
+
+export function parseCsvImport(input: string): CsvImportResult {
+  const table = readCsvTable(input);
+  return mapCsvTable(table, detectColumnMapping(table.header));
+}
+
+export function readCsvTable(input: string): CsvTable {
+  const data = stripBom(input);
+  const delimiter = sniffDelimiter(data);
+  const diagnostics: CsvDiagnostic[] = [];
+  const records = parseCsv(data, delimiter, diagnostics).filter((record) => !isBlankRecord(record));
+  if (!records.length) return { header: [], records: [], headerLine: 1, delimiter, diagnostics };
+
+  return {
+    header: records[0].fields.map((h) => h.trim()),
+    records: records.slice(1),
+    headerLine: records[0].line,
+    delimiter,
+    diagnostics,
+  };
+}
+
+/** Stable key for a header row, used to remember column mappings between imports. */
+export function headerSignature(header: string[]): string {
+  return header.map(normalizeHeader).join('|');
+}
+
+export function detectColumnMapping(header: string[]): CsvColumnMapping {
+  const normalized = header.map(normalizeHeader);
+  const mapping: CsvColumnMapping = {};
+  CSV_FIELDS.forEach((field) => {
+    const idx = findHeaderIndex(normalized, HEADER_MAP[field]);
+    if (idx !== -1) mapping[field] = idx;
+  });
+  return mapping;
+}
+
+export function mapCsvTable(table: CsvTable, mapping: CsvColumnMapping): CsvImportResult {
+  const diagnostics = [...table.diagnostics];
+  const { header, headerLine } = table;
+
+  if (mapping.name === undefined && mapping.url === undefined) {
+    diagnostics.push({ line: headerLine, severity: 'error', problem: 'Header has no group name or URL column.' });
+  }
+  if (mapping.ad === undefined) {
+    diagnostics.push({ line: headerLine, severity: 'warning', problem: 'Header has no post text column.' });
+  }
+
+  const rows: ParsedCsvRow[] = [];
+  table.records.forEach((record) => {
+    if (record.fields.length !== header.length) {
+      diagnostics.push({
+        line: record.line,
+        severity: 'warning',
+        problem: `Expected ${header.length} columns but found ${record.fields.length}.`,
+      });
+    }
+    const row = mapCsvRecord(record.fields, mapping, header);
+    if (!hasRowContent(row)) {
+      diagnostics.push({ line: record.line, severity: 'error', problem: 'Row has no group name, URL or post text and was skipped.' });
+      return;
+    }
+    if (!row.url) {
+      diagnostics.push({ line: record.line, severity: 'warning', problem: 'Row has no group URL.' });
+    }
+    rows.push(row);
   });
 
-  return rows
-    .slice(1)
-    .map((columns) => mapRow(columns, indexLookup))
-    .filter((row) => row.name || row.url || row.ad);
+  diagnostics.sort((a, b) => a.line - b.line);
+  return { rows, delimiter: table.delimiter, diagnostics, recordCount: table.records.length };
+}
+
+export function mapCsvRecord(columns: string[], mapping: CsvColumnMapping, header: string[] = []): ParsedCsvRow {
+  const get = (key: CsvField): string => {
+    const idx = mapping[key] ?? -1;
+    return idx >= 0 ? columns[idx] ?? '' : '';
+  };
+
+  const name = mapping.name !== undefined ? get('name').trim() : undefined;
+  const url = mapping.url !== undefined ? get('url').trim() : undefined;
+  // Post text is kept exactly as written, so leading spaces and trailing newlines survive export and import.
+  const ad = mapping.ad !== undefined ? get('ad') : undefined;
+  const statusText = get('status').trim().toLowerCase() as RowStatusKind | '';
+  const historyText = get('history').trim();
+  const id = get('id').trim() || undefined;
+  const lastChangedAt = get('lastChangedAt').trim() || undefined;
+
+  return {
+    id,
+    name,
+    url,
+    ad,
+    status: isValidStatus(statusText) ? statusText : undefined,
+    history: parseHistory(historyText),
+    lastChangedAt,
+    rules: mapping.rules !== undefined ? get('rules').trim() : undefined,
+    tags: mapping.tags !== undefined ? parseTags(get('tags')) : undefined,
+    membership: mapping.membership !== undefined ? parseMembership(get('membership')) : undefined,
+    template: mapping.template !== undefined ? get('template').trim() : undefined,
+    fields: readFieldColumns(columns, header),
+  };
+}
+
+function readFieldColumns(columns: string[], header: string[]): Record<string, string> | undefined {
+  let fields: Record<string, string> | undefined;
+  header.forEach((name, index) => {
+    const match = name.match(FIELD_COLUMN_PATTERN);
+    if (!match) return;
+    fields = fields ?? {};
+    const value = (columns[index] ?? '').trim();
+    if (value) fields[normalizeVariableName(match[1])] = value;
+  });
+  return fields;
+}
+
+/** Rows without a name, URL or post text are dropped on import. */
+export function hasRowContent(row: ParsedCsvRow): boolean {
+  return Boolean(row.name || row.url || row.ad);
 }
 
 export interface SerializableRow {
@@ -42,44 +206,55 @@ export interface SerializableRow {
   ad: string;
   status: RowStatusKind;
   history: RowHistoryEntry[];
+  lastChangedAt?: string;
+  rules?: string;
+  tags?: string[];
+  membership?: GroupMembership;
+  templateId?: string;
+  fields?: Record<string, string>;
 }
 
-export function createCsv(rows: SerializableRow[]): string {
-  const header = ['ID', 'Group Name', 'Group URL', 'Post Text', 'Status', 'History'];
+export function createCsv(rows: SerializableRow[], templates: PostTemplate[] = []): string {
+  const fieldNames = [...new Set(rows.flatMap((row) => Object.keys(row.fields ?? {})))].sort();
+  const templateNames = new Map(templates.map((template) => [template.id, template.name]));
+  const header = [
+    'ID',
+    'Group Name',
+    'Group URL',
+    'Post Text',
+    'Status',
+    'History',
+    'Last Changed At',
+    'Rules',
+    'Tags',
+    'Membership',
+    'Template',
+    ...fieldNames.map((name) => escapeCsvValue(`Field: ${name}`)),
+  ];
   const body = rows.map((row) => [
-    row.id,
+    escapeCsvValue(row.id),
     escapeCsvValue(row.name),
     escapeCsvValue(row.url),
     escapeCsvValue(row.ad),
     row.status,
     escapeCsvValue(JSON.stringify(row.history ?? [])),
+    escapeCsvValue(row.lastChangedAt ?? ''),
+    escapeCsvValue(row.rules ?? ''),
+    escapeCsvValue(formatTags(row.tags)),
+    row.membership ?? '',
+    escapeCsvValue(row.templateId ? templateNames.get(row.templateId) ?? row.templateId : ''),
+    ...fieldNames.map((name) => escapeCsvValue(row.fields?.[name] ?? '')),
   ]);
   return [header, ...body]
     .map((columns) => columns.join(','))
     .join('\n');
 }
 
-function mapRow(columns: string[], indexLookup: Map<HeaderKey, number>): ParsedCsvRow {
-  const get = (key: HeaderKey): string => {
-    const idx = indexLookup.get(key) ?? -1;
-    return idx >= 0 ? columns[idx] ?? '' : '';
-  };
-
-  const name = get('name').trim();
-  const url = get('url').trim();
-  const ad = get('ad').trim();
-  const statusText = get('status').trim().toLowerCase() as RowStatusKind | '';
-  const historyText = get('history').trim();
-  const id = get('id').trim() || undefined;
-
-  return {
-    id,
-    name,
-    url,
-    ad,
-    status: isValidStatus(statusText) ? statusText : undefined,
-    history: parseHistory(historyText),
-  };
+/** Plain CSV for a table of aggregated values, such as the stats view exports. */
+export function createTableCsv(header: string[], rows: (string | number)[][]): string {
+  return [header, ...rows]
+    .map((columns) => columns.map((value) => escapeCsvValue(String(value))).join(','))
+    .join('\n');
 }
 
 function parseHistory(raw: string): RowHistoryEntry[] {
@@ -114,15 +289,48 @@ function findHeaderIndex(header: string[], candidates: readonly string[]): numbe
   return -1;
 }
 
-function parseCsv(input: string): string[][] {
-  const result: string[][] = [];
-  let row: string[] = [];
+/**
+ * RFC 4180 tokenizer. Accepts LF, CRLF and lone CR line endings. Stray quotes are
+ * kept as literal text, and an unterminated quote is closed at the end of its line
+ * instead of swallowing the rest of the file. Each problem is reported once.
+ */
+function parseCsv(data: string, delimiter: CsvDelimiter, diagnostics: CsvDiagnostic[]): CsvRecord[] {
+  const result: CsvRecord[] = [];
+  let fields: string[] = [];
   let current = '';
   let inQuotes = false;
+  let afterQuote = false;
+  let line = 1;
+  let recordLine = 1;
   let i = 0;
-  const data = stripBom(input);
+  let openQuote: { index: number; line: number; fields: string[]; current: string; resultLength: number } | null = null;
+  const literalQuotes = new Set<number>();
+
+  const endRecord = () => {
+    fields.push(current);
+    result.push({ line: recordLine, fields });
+    fields = [];
+    current = '';
+    afterQuote = false;
+  };
+
+  while (i <= data.length) {
+    if (i === data.length) {
+      if (inQuotes && openQuote) {
+        diagnostics.push({ line: openQuote.line, severity: 'warning', problem: 'Unterminated quoted field; quote treated as text.' });
+        literalQuotes.add(openQuote.index);
+        i = openQuote.index;
+        line = openQuote.line;
+        fields = openQuote.fields;
+        current = openQuote.current;
+        result.length = openQuote.resultLength;
+        inQuotes = false;
+        openQuote = null;
+        continue;
+      }
+      break;
+    }
 
-  while (i < data.length) {
     const char = data[i];
 
     if (inQuotes) {
@@ -133,47 +341,96 @@ function parseCsv(input: string): string[][] {
           continue;
         }
         inQuotes = false;
+        afterQuote = true;
+        openQuote = null;
         i += 1;
         continue;
       }
+      if (char === '\n' || (char === '\r' && data[i + 1] !== '\n')) {
+        line += 1;
+      }
       current += char;
       i += 1;
       continue;
     }
 
-    if (char === '"') {
-      inQuotes = true;
+    if (char === delimiter) {
+      fields.push(current);
+      current = '';
+      afterQuote = false;
       i += 1;
       continue;
     }
 
-    if (char === ',') {
-      row.push(current);
-      current = '';
-      i += 1;
+    if (char === '\r' || char === '\n') {
+      endRecord();
+      i += char === '\r' && data[i + 1] === '\n' ? 2 : 1;
+      line += 1;
+      recordLine = line;
       continue;
     }
 
-    if (char === '\n') {
-      row.push(current);
-      result.push(row);
-      row = [];
-      current = '';
-      i += 1;
-      continue;
+    if (char === '"' && !literalQuotes.has(i)) {
+      if (current === '' && !afterQuote) {
+        openQuote = { index: i, line, fields: [...fields], current, resultLength: result.length };
+        inQuotes = true;
+        i += 1;
+        continue;
+      }
+      diagnostics.push({ line, severity: 'warning', problem: 'Unexpected quote inside an unquoted field.' });
+    } else if (afterQuote) {
+      diagnostics.push({ line, severity: 'warning', problem: 'Unexpected text after a closing quote.' });
+      afterQuote = false;
     }
 
     current += char;
     i += 1;
   }
 
-  row.push(current);
-  result.push(row);
+  fields.push(current);
+  result.push({ line: recordLine, fields });
   return result;
 }
 
+function sniffDelimiter(data: string): CsvDelimiter {
+  const sample = data.split(/\r\n|\n|\r/).filter((line) => line.trim()).slice(0, 10);
+  if (!sample.length) return ',';
+
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  DELIMITER_CANDIDATES.forEach((candidate) => {
+    const counts = sample.map((line) => countOutsideQuotes(line, candidate));
+    if (!counts[0]) return;
+    const consistent = counts.filter((count) => count === counts[0]).length;
+    const score = consistent * 1000 + counts[0];
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function countOutsideQuotes(line: string, delimiter: CsvDelimiter): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count += 1;
+  }
+  return count;
+}
+
+function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+function isBlankRecord(record: CsvRecord): boolean {
+  return record.fields.length === 1 && !record.fields[0].trim();
+}
+
 function escapeCsvValue(value: string): string {
-  if (value.includes(',') || value.includes('\n') || value.includes('"')) {
+  if (/[",\r\n]/.test(value)) {
     return `"${value.replace(/"/g, '""')}"`;
   }
   return value;
@@ -0,0 +1,56 @@
+import { QueueRow } from './types';
+import { canonicalUrl, normalizeGroupUrl } from './url';
+
+export interface DuplicateGroup {
+  /** Canonical URL shared by the rows. */
+  key: string;
+  rows: QueueRow[];
+}
+
+/** Sets of two or more rows whose URLs point at the same group, in queue order. Rows without a URL are ignored. */
+export function findDuplicateGroups(rows: QueueRow[]): DuplicateGroup[] {
+  const byKey = new Map<string, QueueRow[]>();
+  rows.forEach((row) => {
+    const key = canonicalUrl(row.url);
+    if (!key) return;
+    byKey.set(key, [...(byKey.get(key) ?? []), row]);
+  });
+  return [...byKey.entries()].filter(([, group]) => group.length > 1).map(([key, group]) => ({ key, rows: group }));
+}
+
+/**
+ * Folds the rows in `ids` into `keepId`: the kept row stays where it is with its own name,
+ * post text and status and a canonical URL, and gains the others' history, tags and template fields it lacks.
+ */
+export function mergeDuplicateRows(rows: QueueRow[], ids: string[], keepId: string): QueueRow[] {
+  const keep = rows.find((row) => row.id === keepId);
+  if (!keep) return rows;
+  const others = rows.filter((row) => row.id !== keepId && ids.includes(row.id));
+  if (!others.length) return rows;
+
+  const history = [keep, ...others]
+    .flatMap((row) => row.history)
+    .sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+  const tags = [...new Set([keep, ...others].flatMap((row) => row.tags ?? []))];
+  const lastChangedAt = [keep, ...others]
+    .map((row) => row.lastChangedAt)
+    .filter((value): value is string => Boolean(value))
+    .sort()
+    .pop();
+  const fields: Record<string, string> = Object.assign({}, ...others.map((row) => row.fields), keep.fields);
+  const knownMembership = [keep, ...others].find((row) => row.membership && row.membership !== 'unknown')?.membership;
+
+  const merged: QueueRow = {
+    ...keep,
+    url: normalizeGroupUrl(keep.url),
+    history,
+    lastChangedAt,
+    rules: keep.rules || others.find((row) => row.rules)?.rules,
+    tags: tags.length ? tags : undefined,
+    membership: knownMembership ?? keep.membership,
+    templateId: keep.templateId ?? others.find((row) => row.templateId)?.templateId,
+    fields: Object.keys(fields).length ? fields : undefined,
+  };
+  const removed = new Set(others.map((row) => row.id));
+  return rows.filter((row) => !removed.has(row.id)).map((row) => (row.id === keepId ? merged : row));
+}
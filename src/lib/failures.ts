@@ -0,0 +1,54 @@
+import { QueueRow } from './types';
+
+export type FailureReasonId = 'pending-approval' | 'not-member' | 'posting-disabled' | 'link-rejected' | 'other';
+
+export interface FailureReason {
+  id: FailureReasonId;
+  label: string;
+}
+
+export const FAILURE_REASONS: FailureReason[] = [
+  { id: 'pending-approval', label: 'Post pending admin approval' },
+  { id: 'not-member', label: 'Not a member' },
+  { id: 'posting-disabled', label: 'Posting disabled' },
+  { id: 'link-rejected', label: 'Link rejected' },
+  { id: 'other', label: 'Other' },
+];
+
+const OTHER_PREFIX = 'Other: ';
+
+export interface RowFailure {
+  reason: FailureReasonId;
+  /** Free text entered for `other`. */
+  detail?: string;
+}
+
+/** Failure reasons are stored in `RowHistoryEntry.note` as the reason label. */
+export function formatFailureNote(reason: FailureReasonId, detail?: string): string {
+  if (reason === 'other') {
+    const text = detail?.trim();
+    return text ? `${OTHER_PREFIX}${text}` : 'Other';
+  }
+  return FAILURE_REASONS.find((item) => item.id === reason)?.label ?? 'Other';
+}
+
+export function parseFailureNote(note: string | undefined): RowFailure {
+  if (!note) return { reason: 'other' };
+  const preset = FAILURE_REASONS.find((item) => item.id !== 'other' && item.label === note);
+  if (preset) return { reason: preset.id };
+  return { reason: 'other', detail: note.startsWith(OTHER_PREFIX) ? note.slice(OTHER_PREFIX.length) : note === 'Other' ? undefined : note };
+}
+
+/** Reason recorded by the most recent `failed` history entry, or null if the row is not failed. */
+export function getRowFailure(row: QueueRow): RowFailure | null {
+  if (row.status !== 'failed') return null;
+  for (let i = row.history.length - 1; i >= 0; i -= 1) {
+    const entry = row.history[i];
+    if (entry.action === 'failed') return parseFailureNote(entry.note);
+  }
+  return { reason: 'other' };
+}
+
+export function describeFailure(failure: RowFailure): string {
+  return failure.reason === 'other' ? formatFailureNote('other', failure.detail) : formatFailureNote(failure.reason);
+}
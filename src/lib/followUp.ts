@@ -0,0 +1,28 @@
+import { QueueRow } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+/** Number of Copy & Open attempts recorded for the row. */
+export function openAttempts(row: QueueRow): number {
+  return row.history.filter((entry) => entry.action === 'opened').length;
+}
+
+/** Time of the last Copy & Open that no status change has answered yet, or null. "Not yet" answers leave it open. */
+export function unresolvedOpenAt(row: QueueRow): number | null {
+  for (let i = row.history.length - 1; i >= 0; i -= 1) {
+    const entry = row.history[i];
+    if (entry.action === 'opened') {
+      const time = Date.parse(entry.at);
+      return Number.isNaN(time) ? null : time;
+    }
+    if (entry.action !== 'copied' && entry.action !== 'checked') return null;
+  }
+  return null;
+}
+
+/** Whether the row was opened at least `delayMinutes` ago and has not been marked since. */
+export function needsFollowUp(row: QueueRow, delayMinutes: number, now = Date.now()): boolean {
+  if (delayMinutes <= 0) return false;
+  const openedAt = unresolvedOpenAt(row);
+  return openedAt !== null && now - openedAt >= delayMinutes * MINUTE_MS;
+}
@@ -0,0 +1,56 @@
+import { GroupMembership, QueueRow } from './types';
+
+export const MEMBERSHIP_STATES: { id: GroupMembership; label: string }[] = [
+  { id: 'unknown', label: 'Membership unknown' },
+  { id: 'member', label: 'Member' },
+  { id: 'requested', label: 'Join requested' },
+  { id: 'not-member', label: 'Not a member' },
+];
+
+/** Tags offered as one-tap suggestions; any other text is allowed too. */
+export const COMMON_TAGS = [
+  'no links',
+  'links in comments only',
+  'promo day: Sunday',
+  'promo day: Saturday',
+  'needs admin approval',
+  'no fundraisers',
+];
+
+export const NO_LINKS_TAG = 'no links';
+
+export function parseMembership(value: string): GroupMembership | undefined {
+  const normalized = value.trim().toLowerCase().replace(/[_\s]+/g, '-');
+  if (!normalized) return undefined;
+  if (['member', 'joined', 'yes'].includes(normalized)) return 'member';
+  if (['requested', 'pending', 'join-requested'].includes(normalized)) return 'requested';
+  if (['not-member', 'no', 'not-joined'].includes(normalized)) return 'not-member';
+  return 'unknown';
+}
+
+/** Tags are stored as a list and written to CSV separated by semicolons. */
+export function parseTags(value: string): string[] {
+  const seen = new Set<string>();
+  return value
+    .split(/[;|\n]/)
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+export function formatTags(tags: string[] | undefined): string {
+  return (tags ?? []).join('; ');
+}
+
+export function hasTag(row: Pick<QueueRow, 'tags'>, tag: string): boolean {
+  const wanted = tag.toLowerCase();
+  return (row.tags ?? []).some((item) => item.toLowerCase() === wanted);
+}
+
+export function hasGroupRules(row: Pick<QueueRow, 'rules' | 'tags' | 'membership'>): boolean {
+  return Boolean(row.rules?.trim() || row.tags?.length || (row.membership && row.membership !== 'unknown'));
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvRows } from './csv';
+import { planImport } from './importMerge';
+import { QueueRow } from './types';
+
+const existing: QueueRow[] = [
+  {
+    id: 'a',
+    name: 'Folsom Community',
+    url: 'https://www.facebook.com/groups/355271864659430/',
+    ad: 'Hi neighbors — sharing resources',
+    status: 'posted',
+    history: [{ at: '2024-05-01T10:00:00.000Z', action: 'posted' }],
+    lastChangedAt: '2024-05-01T10:00:00.000Z',
+  },
+];
+
+describe('planImport', () => {
+  it('keeps post text and status when the file has no such columns', () => {
+    const entries = parseCsvRows('Group Name,Group URL\nFolsom Community,https://m.facebook.com/groups/355271864659430\n');
+    expect(entries[0].ad).toBeUndefined();
+    (['update', 'replace'] as const).forEach((strategy) => {
+      const plan = planImport(existing, entries, [], { strategy, match: 'name-url' });
+      expect(plan.rows).toEqual(existing);
+      expect(plan.conflicts).toEqual([]);
+    });
+  });
+
+  it('keeps post text when the cell is blank', () => {
+    const entries = parseCsvRows('Group Name,Group URL,Post Text\nFolsom Community,https://www.facebook.com/groups/355271864659430/,\n');
+    const plan = planImport(existing, entries, [], { strategy: 'update', match: 'name-url' });
+    expect(plan.rows[0].ad).toBe(existing[0].ad);
+    expect(plan.conflicts).toEqual([]);
+  });
+
+  it('reports changed post text as a conflict', () => {
+    const entries = parseCsvRows('Group Name,Group URL,Post Text\nFolsom Community,https://www.facebook.com/groups/355271864659430/,New text\n');
+    const plan = planImport(existing, entries, [], { strategy: 'update', match: 'name-url' });
+    expect(plan.conflicts.map((conflict) => conflict.fields)).toEqual([['ad']]);
+    expect(plan.rows[0]).toMatchObject({ id: 'a', ad: 'New text', status: 'posted' });
+  });
+
+  it('imports only the first of several rows for the same group', () => {
+    const entries = parseCsvRows(
+      'Group Name,Group URL,Post\nNew Group,https://www.facebook.com/groups/42/,First\nNew Group,https://m.facebook.com/groups/42,Second\n' +
+        'Folsom Community,https://www.facebook.com/groups/355271864659430/,\nFolsom Community,https://www.facebook.com/groups/355271864659430/,\n'
+    );
+    (['replace', 'append', 'update'] as const).forEach((strategy) => {
+      const plan = planImport(existing, entries, [], { strategy, match: 'name-url' });
+      expect(plan.added).toBe(1);
+      expect(plan.duplicates).toBe(2);
+      expect(plan.rows.filter((row) => row.name === 'New Group').map((row) => row.ad)).toEqual(['First']);
+      expect(plan.rows.filter((row) => row.name === 'Folsom Community')).toHaveLength(1);
+    });
+  });
+
+  it('keeps the existing name in URL-only files matched by URL', () => {
+    const entries = parseCsvRows('URL,Post\nhttps://www.facebook.com/groups/355271864659430/?ref=share,New text\n');
+    const plan = planImport(existing, entries, [], { strategy: 'update', match: 'url' });
+    expect(plan.rows[0]).toMatchObject({ id: 'a', name: 'Folsom Community', ad: 'New text' });
+  });
+});
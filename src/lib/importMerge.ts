@@ -0,0 +1,196 @@
+import { ParsedCsvRow } from './csv';
+import { createId } from './id';
+import { findTemplateByName } from './templates';
+import { PostTemplate, QueueRow, RowStatusKind } from './types';
+import { canonicalUrl, normalizeGroupUrl } from './url';
+
+/** `replace` swaps the whole list, `append` only adds new groups, `update` edits matches and keeps everything else. */
+export type ImportStrategy = 'replace' | 'append' | 'update';
+
+/** `name-url` matches on name and URL together; `url` matches on the canonical URL alone, so renamed groups keep their history. */
+export type ImportMatchMode = 'name-url' | 'url';
+
+export interface ImportOptions {
+  strategy: ImportStrategy;
+  match: ImportMatchMode;
+}
+
+export const DEFAULT_IMPORT_OPTIONS: ImportOptions = { strategy: 'replace', match: 'name-url' };
+
+export const IMPORT_STRATEGIES: { value: ImportStrategy; label: string; description: string }[] = [
+  { value: 'replace', label: 'Replace', description: 'The file becomes the queue. Rows missing from it are removed.' },
+  { value: 'append', label: 'Append new only', description: 'Adds groups that are not queued yet and leaves existing rows untouched.' },
+  { value: 'update', label: 'Update and keep', description: 'Updates matching rows, adds new groups and keeps rows missing from the file.' },
+];
+
+export type ConflictField = 'ad' | 'status';
+
+export interface ImportConflict {
+  existing: QueueRow;
+  /** The merged row that would replace `existing`; it keeps the existing ID. */
+  incoming: QueueRow;
+  fields: ConflictField[];
+}
+
+export interface ImportPlan {
+  rows: QueueRow[];
+  added: number;
+  updated: number;
+  /** Rows in the file that matched an existing row and were left alone (append only). */
+  skipped: number;
+  /** Rows that repeat an earlier row of the same file; only the first one is imported. */
+  duplicates: number;
+  removed: number;
+  conflicts: ImportConflict[];
+}
+
+const STATUSES: RowStatusKind[] = ['pending', 'posted', 'skipped', 'failed'];
+
+/** Name plus canonical URL, so mobile links, share links and trailing-slash variants of a group match. */
+export function makeMergeKey(name: string, url: string): string {
+  return `${name.trim().toLowerCase()}|${canonicalUrl(url)}`;
+}
+
+/** Key used to match an imported row against the queue; rows without a URL fall back to the name. */
+export function importMatchKey(row: { name?: string; url?: string }, match: ImportMatchMode): string {
+  if (match === 'url') {
+    const url = canonicalUrl(row.url ?? '');
+    if (url) return `url:${url}`;
+  }
+  return makeMergeKey(row.name ?? '', row.url ?? '');
+}
+
+/**
+ * Works out the queue an import would produce without applying it. Rows are matched by ID
+ * first (files exported from this app carry one) and then by `importMatchKey`. Matches whose
+ * post text or status would change are reported as conflicts for review. Later rows of the
+ * file with the same key as an earlier one are left out, as the import preview shows.
+ */
+export function planImport(
+  existing: QueueRow[],
+  entries: ParsedCsvRow[],
+  templates: PostTemplate[] | undefined,
+  options: ImportOptions
+): ImportPlan {
+  const byId = new Map(existing.map((row) => [row.id, row]));
+  const byKey = new Map<string, QueueRow>();
+  existing.forEach((row) => {
+    const key = importMatchKey(row, options.match);
+    if (!byKey.has(key)) byKey.set(key, row);
+  });
+
+  const claimed = new Set<string>();
+  const seenKeys = new Set<string>();
+  const usedIds = new Set(options.strategy === 'replace' ? [] : existing.map((row) => row.id));
+  const matched = new Map<string, QueueRow>();
+  const added: QueueRow[] = [];
+  const replaced: QueueRow[] = [];
+  const conflicts: ImportConflict[] = [];
+  let skipped = 0;
+  let duplicates = 0;
+
+  entries.forEach((entry) => {
+    const key = importMatchKey(entry, options.match);
+    if (seenKeys.has(key)) {
+      duplicates += 1;
+      return;
+    }
+    seenKeys.add(key);
+    const candidate = (entry.id ? byId.get(entry.id) : undefined) ?? byKey.get(key);
+    const match = candidate && !claimed.has(candidate.id) ? candidate : undefined;
+
+    if (!match) {
+      const id = entry.id && !usedIds.has(entry.id) && !byId.has(entry.id) ? entry.id : createId();
+      usedIds.add(id);
+      const row = mergeEntry(entry, undefined, id, templates);
+      added.push(row);
+      replaced.push(row);
+      return;
+    }
+
+    claimed.add(match.id);
+    usedIds.add(match.id);
+    if (options.strategy === 'append') {
+      skipped += 1;
+      return;
+    }
+    const row = mergeEntry(entry, match, match.id, templates);
+    const fields = (['ad', 'status'] as const).filter((field) => row[field] !== match[field]);
+    if (fields.length) conflicts.push({ existing: match, incoming: row, fields });
+    matched.set(match.id, row);
+    replaced.push(row);
+  });
+
+  if (options.strategy === 'replace') {
+    return {
+      rows: replaced,
+      added: added.length,
+      updated: matched.size,
+      skipped,
+      duplicates,
+      removed: existing.length - matched.size,
+      conflicts,
+    };
+  }
+
+  return {
+    rows: [...existing.map((row) => matched.get(row.id) ?? row), ...added],
+    added: added.length,
+    updated: matched.size,
+    skipped,
+    duplicates,
+    removed: 0,
+    conflicts,
+  };
+}
+
+/** Final rows for a plan, reverting the conflicting fields of rows whose IDs are in `keepExisting`. */
+export function resolveImport(plan: ImportPlan, keepExisting: Set<string>): QueueRow[] {
+  if (!keepExisting.size) return plan.rows;
+  const kept = new Map(
+    plan.conflicts
+      .filter((conflict) => keepExisting.has(conflict.existing.id))
+      .map((conflict) => [conflict.existing.id, conflict])
+  );
+  return plan.rows.map((row) => {
+    const conflict = kept.get(row.id);
+    if (!conflict) return row;
+    const { existing, fields } = conflict;
+    const next = { ...row };
+    if (fields.includes('ad')) next.ad = existing.ad;
+    if (fields.includes('status')) {
+      next.status = existing.status;
+      next.history = existing.history;
+      next.lastChangedAt = existing.lastChangedAt;
+    }
+    return next;
+  });
+}
+
+function mergeEntry(
+  entry: ParsedCsvRow,
+  existing: QueueRow | undefined,
+  id: string,
+  templates: PostTemplate[] | undefined
+): QueueRow {
+  const history = Array.isArray(entry.history) ? entry.history : [];
+  const status: RowStatusKind =
+    entry.status && STATUSES.includes(entry.status) ? entry.status : existing?.status ?? 'pending';
+  const lastChangedAt = entry.lastChangedAt ?? (history.length ? history[history.length - 1].at : existing?.lastChangedAt);
+
+  return {
+    id,
+    name: entry.name ?? existing?.name ?? '',
+    url: normalizeGroupUrl(entry.url ?? existing?.url ?? ''),
+    // A blank post text cell keeps the existing text rather than wiping it.
+    ad: entry.ad || existing?.ad || '',
+    status,
+    history: history.length ? history : existing?.history ?? [],
+    lastChangedAt,
+    rules: entry.rules ?? existing?.rules,
+    tags: entry.tags ?? existing?.tags,
+    membership: entry.membership ?? existing?.membership,
+    templateId: entry.template !== undefined ? findTemplateByName(templates, entry.template)?.id : existing?.templateId,
+    fields: entry.fields ? { ...existing?.fields, ...entry.fields } : existing?.fields,
+  };
+}
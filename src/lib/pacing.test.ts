@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '../test/memoryStorage';
+import {
+  createPacingState,
+  getPacingStatus,
+  loadPacing,
+  pacingOverrun,
+  PacingState,
+  recordPost,
+  removePost,
+  SESSION_IDLE_MS,
+  startPacingSession,
+  updatePacing,
+} from './pacing';
+import { DEFAULT_SETTINGS } from './settings';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+/** Local noon, so the day boundary is well away from the times used here. */
+const NOON = new Date(2024, 4, 1, 12).getTime();
+
+const iso = (time: number) => new Date(time).toISOString();
+
+function posted(start: number, times: number[]): PacingState {
+  return times.reduce((pacing, time) => recordPost(pacing, iso(time)), createPacingState(start));
+}
+
+describe('getPacingStatus', () => {
+  it('counts posts today and this session', () => {
+    const pacing = posted(NOON - 3 * HOUR, [NOON - 13 * HOUR, NOON - 2 * HOUR, NOON - HOUR]);
+    expect(getPacingStatus(pacing, DEFAULT_SETTINGS, NOON)).toMatchObject({ postsToday: 2, postsThisSession: 2, blockedBy: null });
+  });
+
+  it('blocks on the session cap until the session goes idle', () => {
+    const pacing = posted(NOON - HOUR, [NOON - 30 * MINUTE, NOON - 10 * MINUTE]);
+    const settings = { ...DEFAULT_SETTINGS, maxPostsPerSession: 2 };
+    expect(getPacingStatus(pacing, settings, NOON)).toMatchObject({ blockedBy: 'session', until: NOON - 10 * MINUTE + SESSION_IDLE_MS });
+    expect(getPacingStatus(pacing, settings, NOON - 10 * MINUTE + SESSION_IDLE_MS)).toMatchObject({
+      blockedBy: null,
+      postsThisSession: 0,
+      sessionStartedAt: NOON - 10 * MINUTE + SESSION_IDLE_MS,
+    });
+  });
+
+  it('blocks on the daily cap until midnight', () => {
+    const pacing = posted(NOON - 6 * HOUR, [NOON - 5 * HOUR, NOON - 4 * HOUR]);
+    const status = getPacingStatus(startPacingSession(pacing, NOON), { ...DEFAULT_SETTINGS, maxPostsPerDay: 2 }, NOON);
+    expect(status).toMatchObject({ blockedBy: 'daily', until: new Date(2024, 4, 2).getTime(), postsThisSession: 0 });
+  });
+
+  it('blocks until the minimum interval has passed', () => {
+    const pacing = posted(NOON - HOUR, [NOON - 5 * MINUTE]);
+    const settings = { ...DEFAULT_SETTINGS, minIntervalMinutes: 15 };
+    expect(getPacingStatus(pacing, settings, NOON)).toMatchObject({ blockedBy: 'interval', until: NOON + 10 * MINUTE });
+    expect(getPacingStatus(pacing, settings, NOON + 10 * MINUTE).blockedBy).toBeNull();
+  });
+});
+
+describe('pacingOverrun', () => {
+  const pacing = posted(NOON - HOUR, [NOON - 30 * MINUTE]);
+
+  it('allows any number of posts without limits', () => {
+    expect(pacingOverrun(pacing, DEFAULT_SETTINGS, 50, NOON)).toBeNull();
+  });
+
+  it('reports the cap the whole batch would go over', () => {
+    expect(pacingOverrun(pacing, { ...DEFAULT_SETTINGS, maxPostsPerSession: 3 }, 2, NOON)).toBeNull();
+    expect(pacingOverrun(pacing, { ...DEFAULT_SETTINGS, maxPostsPerSession: 3 }, 3, NOON)).toBe('session');
+    expect(pacingOverrun(pacing, { ...DEFAULT_SETTINGS, maxPostsPerDay: 2 }, 2, NOON)).toBe('daily');
+  });
+
+  it('treats more than one post at once as breaking the minimum interval', () => {
+    const settings = { ...DEFAULT_SETTINGS, minIntervalMinutes: 15 };
+    expect(pacingOverrun(pacing, settings, 1, NOON)).toBeNull();
+    expect(pacingOverrun(pacing, settings, 2, NOON)).toBe('interval');
+    expect(pacingOverrun(pacing, settings, 1, NOON - 20 * MINUTE)).toBe('interval');
+    expect(pacingOverrun(pacing, settings, 0, NOON - 20 * MINUTE)).toBeNull();
+  });
+});
+
+describe('recordPost', () => {
+  it('starts a new session after an idle gap', () => {
+    const pacing = posted(NOON - 5 * HOUR, [NOON - 4 * HOUR, NOON]);
+    expect(pacing.sessionStartedAt).toBe(iso(NOON));
+    expect(getPacingStatus(pacing, DEFAULT_SETTINGS, NOON + MINUTE).postsThisSession).toBe(1);
+  });
+
+  it('keeps the session going while posts keep coming', () => {
+    const times = Array.from({ length: 12 }, (_, index) => NOON - 10 * HOUR + index * HOUR);
+    const pacing = posted(NOON - 10 * HOUR, times);
+    expect(pacing.sessionStartedAt).toBe(iso(NOON - 10 * HOUR));
+    expect(pacing.postLog).toHaveLength(12);
+  });
+
+  it('prunes the log to the current session and today', () => {
+    const days = Array.from({ length: 30 }, (_, index) => NOON - (30 - index) * 24 * HOUR);
+    const pacing = posted(days[0], [...days, NOON - HOUR, NOON]);
+    expect(pacing.postLog).toEqual([iso(NOON - HOUR), iso(NOON)]);
+  });
+
+  it('keeps the latest post for the interval check across midnight', () => {
+    const lateNight = new Date(2024, 4, 1, 23, 55).getTime();
+    const pacing = startPacingSession(posted(lateNight - HOUR, [lateNight]), lateNight + 10 * MINUTE);
+    expect(pacing.postLog).toEqual([iso(lateNight)]);
+  });
+
+  it('is undone by removePost', () => {
+    const pacing = posted(NOON - HOUR, [NOON - 5 * MINUTE, NOON]);
+    expect(removePost(pacing, iso(NOON)).postLog).toEqual([iso(NOON - 5 * MINUTE)]);
+    expect(removePost(pacing, iso(NOON - HOUR))).toBe(pacing);
+  });
+});
+
+describe('updatePacing', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('builds on what other tabs saved instead of this tab’s copy', () => {
+    const staleTab = updatePacing(() => createPacingState(NOON - HOUR));
+    updatePacing((pacing) => recordPost(pacing, iso(NOON - 30 * MINUTE)));
+    const next = updatePacing((pacing) => recordPost(pacing, iso(NOON)));
+    expect(staleTab.postLog).toEqual([]);
+    expect(next.postLog).toEqual([iso(NOON - 30 * MINUTE), iso(NOON)]);
+    expect(loadPacing()).toEqual(next);
+    expect(getPacingStatus(loadPacing(), { ...DEFAULT_SETTINGS, maxPostsPerDay: 2 }, NOON).blockedBy).toBe('daily');
+  });
+});
@@ -0,0 +1,152 @@
+import { AppSettings } from './settings';
+import { loadState, saveState } from './storage';
+
+export interface PacingState {
+  sessionStartedAt: string;
+  /** Mark Posted times, pruned to what the limits still need. */
+  postLog: string[];
+}
+
+export interface PacingStatus {
+  /** Start of the current session in epoch milliseconds; now, if the last one has gone idle. */
+  sessionStartedAt: number;
+  postsToday: number;
+  postsThisSession: number;
+  /** Why Copy & Open is blocked, or null when posting is allowed. */
+  blockedBy: 'interval' | 'daily' | 'session' | null;
+  /** When the block lifts on its own; for the session cap, when the session goes idle. */
+  until: number | null;
+}
+
+const PACING_KEY = 'paste-happy-pacing';
+/** A session ends on its own after this long without a post. */
+export const SESSION_IDLE_MS = 2 * 60 * 60 * 1000;
+
+export function createPacingState(now = Date.now()): PacingState {
+  return { sessionStartedAt: new Date(now).toISOString(), postLog: [] };
+}
+
+export function loadPacing(): PacingState {
+  const stored = loadState<PacingState | null>(PACING_KEY, null);
+  if (!stored || typeof stored.sessionStartedAt !== 'string' || !Array.isArray(stored.postLog)) {
+    return createPacingState();
+  }
+  return stored;
+}
+
+export function savePacing(pacing: PacingState): void {
+  saveState(PACING_KEY, pacing);
+}
+
+/**
+ * Applies `update` to the stored pacing state rather than this tab's copy, so posts
+ * from every open tab count towards the same limits. Returns the saved state.
+ */
+export function updatePacing(update: (pacing: PacingState) => PacingState): PacingState {
+  const next = update(loadPacing());
+  savePacing(next);
+  return next;
+}
+
+/** Calls `onChange` with the new state whenever another tab saves pacing. */
+export function subscribePacing(onChange: (pacing: PacingState) => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === PACING_KEY) onChange(loadPacing());
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+/** Starts a new session at `now`, keeping the log the daily limit and interval still need. */
+export function startPacingSession(pacing: PacingState, now = Date.now()): PacingState {
+  return prunePostLog({ ...pacing, sessionStartedAt: new Date(now).toISOString() }, now);
+}
+
+export function recordPost(pacing: PacingState, at: string): PacingState {
+  const time = Date.parse(at);
+  const current = time - lastActivityAt(pacing) >= SESSION_IDLE_MS ? startPacingSession(pacing, time) : pacing;
+  return prunePostLog({ ...current, postLog: [...current.postLog, at] }, time);
+}
+
+/** Drops the post logged at `at`, used when a Mark Posted is undone. */
+export function removePost(pacing: PacingState, at: string): PacingState {
+  const index = pacing.postLog.lastIndexOf(at);
+  if (index === -1) return pacing;
+  return { ...pacing, postLog: [...pacing.postLog.slice(0, index), ...pacing.postLog.slice(index + 1)] };
+}
+
+export function getPacingStatus(pacing: PacingState, settings: AppSettings, now = Date.now()): PacingStatus {
+  const times = logTimes(pacing);
+  const startOfDay = new Date(now).setHours(0, 0, 0, 0);
+  const sessionStart = now - lastActivityAt(pacing) >= SESSION_IDLE_MS ? now : Date.parse(pacing.sessionStartedAt);
+  const postsToday = times.filter((time) => time >= startOfDay).length;
+  const postsThisSession = times.filter((time) => time >= sessionStart).length;
+  const status: PacingStatus = { sessionStartedAt: sessionStart, postsToday, postsThisSession, blockedBy: null, until: null };
+
+  if (settings.maxPostsPerSession > 0 && postsThisSession >= settings.maxPostsPerSession) {
+    return { ...status, blockedBy: 'session', until: lastActivityAt(pacing) + SESSION_IDLE_MS };
+  }
+  if (settings.maxPostsPerDay > 0 && postsToday >= settings.maxPostsPerDay) {
+    const tomorrow = new Date(startOfDay);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    return { ...status, blockedBy: 'daily', until: tomorrow.getTime() };
+  }
+  const last = times.length ? Math.max(...times) : null;
+  if (settings.minIntervalMinutes > 0 && last !== null) {
+    const until = last + settings.minIntervalMinutes * 60 * 1000;
+    if (until > now) return { ...status, blockedBy: 'interval', until };
+  }
+  return status;
+}
+
+/**
+ * The limit that recording `count` posts at `now` would go over, or null when they all fit.
+ * Posts recorded together are back to back, so more than one always breaks a minimum interval.
+ */
+export function pacingOverrun(
+  pacing: PacingState,
+  settings: AppSettings,
+  count: number,
+  now = Date.now()
+): PacingStatus['blockedBy'] {
+  if (count <= 0) return null;
+  const status = getPacingStatus(pacing, settings, now);
+  if (status.blockedBy) return status.blockedBy;
+  if (settings.maxPostsPerSession > 0 && status.postsThisSession + count > settings.maxPostsPerSession) return 'session';
+  if (settings.maxPostsPerDay > 0 && status.postsToday + count > settings.maxPostsPerDay) return 'daily';
+  if (settings.minIntervalMinutes > 0 && count > 1) return 'interval';
+  return null;
+}
+
+/** The session start or its latest post, whichever is later; the session goes idle `SESSION_IDLE_MS` after it. */
+function lastActivityAt(pacing: PacingState): number {
+  return Math.max(Date.parse(pacing.sessionStartedAt) || 0, ...logTimes(pacing));
+}
+
+/**
+ * Keeps the posts the limits can still count: those since the start of the session or of
+ * the day, whichever is earlier, and always the latest one for the minimum interval.
+ */
+function prunePostLog(pacing: PacingState, now: number): PacingState {
+  const cutoff = Math.min(Date.parse(pacing.sessionStartedAt) || now, new Date(now).setHours(0, 0, 0, 0));
+  const times = logTimes(pacing);
+  const latest = times.length ? Math.max(...times) : null;
+  const postLog = pacing.postLog.filter((time) => {
+    const parsed = Date.parse(time);
+    return parsed >= cutoff || parsed === latest;
+  });
+  return postLog.length === pacing.postLog.length ? pacing : { ...pacing, postLog };
+}
+
+function logTimes(pacing: PacingState): number[] {
+  return pacing.postLog.map((time) => Date.parse(time)).filter((time) => !Number.isNaN(time));
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+}
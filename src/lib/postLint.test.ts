@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { NO_LINKS_TAG } from './groupRules';
+import { containsLink, findBrokenUrls, findPlaceholder, LintRule, lintPost, LintTarget } from './postLint';
+
+const options = { maxLength: 0 };
+
+function ruleIds(row: LintTarget, lintOptions = options): string[] {
+  return lintPost(row, lintOptions).map((issue) => issue.ruleId);
+}
+
+describe('lintPost', () => {
+  it('passes an ordinary post', () => {
+    expect(lintPost({ ad: 'Hi neighbors! Details here: https://gofund.me/9aada7036 Thanks.' }, options)).toEqual([]);
+  });
+
+  it('flags empty and whitespace-only posts', () => {
+    expect(ruleIds({ ad: '' })).toEqual(['empty']);
+    expect(ruleIds({ ad: ' \n\t' })).toEqual(['empty']);
+  });
+
+  it('flags links only in groups tagged "no links"', () => {
+    const ad = 'See example.com/info';
+    expect(ruleIds({ ad })).toEqual([]);
+    expect(ruleIds({ ad, tags: [NO_LINKS_TAG] })).toEqual(['no-links']);
+    expect(ruleIds({ ad: 'No link here.', tags: [NO_LINKS_TAG] })).toEqual([]);
+  });
+
+  it('flags posts over the length limit unless the limit is 0', () => {
+    expect(lintPost({ ad: 'x'.repeat(11) }, { maxLength: 10 })).toEqual([
+      { ruleId: 'max-length', message: 'Post is 11 characters, over the 10 limit.' },
+    ]);
+    expect(ruleIds({ ad: 'x'.repeat(10) }, { maxLength: 10 })).toEqual([]);
+    expect(ruleIds({ ad: 'x'.repeat(5000) }, { maxLength: 0 })).toEqual([]);
+  });
+
+  it('runs only the rules it is given', () => {
+    const shouting: LintRule = { id: 'shouting', check: (row) => (row.ad === row.ad.toUpperCase() ? 'All caps.' : null) };
+    expect(lintPost({ ad: 'HELLO {{NAME}}' }, options, [shouting])).toEqual([{ ruleId: 'shouting', message: 'All caps.' }]);
+    expect(lintPost({ ad: '' }, options, [])).toEqual([]);
+  });
+});
+
+describe('findBrokenUrls', () => {
+  it.each([
+    ['htps://example.com', ['htps://example.com']],
+    ['ttps://example.com/path', ['ttps://example.com/path']],
+    ['http//example.com', ['http//example.com']],
+    ['http:/example.com', ['http:/example.com']],
+    ['http:example.com', ['http:example.com']],
+    ['https://', ['https://']],
+    ['https://localhost/page', ['https://localhost/page']],
+  ])('flags %s', (text, broken) => {
+    expect(findBrokenUrls(text)).toEqual(broken);
+  });
+
+  it.each([
+    'https://www.facebook.com/groups/123/',
+    'Visit www.example.org today.',
+    '(see https://gofund.me/9aada7036).',
+    'TPS: reports due Friday',
+    'TPS reports, HTTP/2 support and the http/https toggle',
+    'Call at 5pm: tp:ready, ttp: maybe',
+  ])('leaves "%s" alone', (text) => {
+    expect(findBrokenUrls(text)).toEqual([]);
+  });
+});
+
+describe('findPlaceholder', () => {
+  it('flags leftover template variables', () => {
+    expect(findPlaceholder({ ad: 'Hi {{group_name}}!' })).toBe('{{group_name}}');
+    expect(findPlaceholder({ ad: 'Hi {{ anything }}!' })).toBe('{{ anything }}');
+  });
+
+  it('flags other placeholder styles for the row’s own variables', () => {
+    const fields = { link: 'https://gofund.me/x', 'first name': 'Loki' };
+    expect(findPlaceholder({ ad: 'Donate: [LINK]', fields })).toBe('[LINK]');
+    expect(findPlaceholder({ ad: 'Hi {first_name}', fields })).toBe('{first_name}');
+    expect(findPlaceholder({ ad: 'Hi <<First Name>>', fields })).toBe('<<First Name>>');
+    expect(findPlaceholder({ ad: 'Welcome to %GROUP_NAME%' })).toBe('%GROUP_NAME%');
+  });
+
+  it.each(['Everything is [FREE] this week', 'Call [NOW] to book', 'Prices {approx} vary', 'Use <<caution>>', 'Save 50% or 20%'])(
+    'leaves "%s" alone',
+    (ad) => {
+      expect(findPlaceholder({ ad, fields: { link: 'x' } })).toBeNull();
+      expect(lintPost({ ad }, options)).toEqual([]);
+    }
+  );
+});
+
+describe('containsLink', () => {
+  it('finds full URLs, www. links and bare domains', () => {
+    expect(containsLink('https://gofund.me/x')).toBe(true);
+    expect(containsLink('www.example.org')).toBe(true);
+    expect(containsLink('bit.ly/abc')).toBe(true);
+    expect(containsLink('Meet at 5.30, bring snacks.')).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { hasTag, NO_LINKS_TAG } from './groupRules';
+import { BUILT_IN_VARIABLES, normalizeVariableName } from './templates';
+import { QueueRow } from './types';
+
+export type LintTarget = Pick<QueueRow, 'ad' | 'tags' | 'fields'>;
+
+export interface LintOptions {
+  /** Posts longer than this many characters are flagged; 0 disables the check. */
+  maxLength: number;
+}
+
+export interface LintRule {
+  id: string;
+  /** Returns a warning message, or null when the post passes. */
+  check: (row: LintTarget, options: LintOptions) => string | null;
+}
+
+export interface LintIssue {
+  ruleId: string;
+  message: string;
+}
+
+export const EMPTY_POST_RULE_ID = 'empty';
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+const BARE_DOMAIN_PATTERN = /\b[a-z0-9-]+\.(?:com|net|org|io|co|ly|me|info|biz|shop|link|gl)\b(?:\/\S*)?/i;
+/**
+ * Anything that starts like a URL, including misspelled schemes such as `htps://` or `http//`.
+ * Without `://`, the scheme must be followed by a host name, so words like "TPS:" are not links.
+ */
+const URL_LIKE_PATTERN =
+  /\b(?:h?t{1,2}ps?:\/\/|h?t{1,2}ps?(?::\/?|\/{1,2})(?=[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}\b)|www\.(?=\w))[^\s<>"]*/gi;
+/** The template syntax itself, left behind when a variable was never filled in. */
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{\{[^{}]*\}\}/;
+/** Other placeholder styles, only flagged when the name inside is one of the row's variables. */
+const NAMED_PLACEHOLDER_PATTERN = /\[([A-Za-z][\w -]*)\]|\{([A-Za-z_][\w-]*)\}|<<([^<>]+)>>|%([A-Za-z_]{2,})%/g;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]'"]+$/;
+
+export const DEFAULT_LINT_RULES: LintRule[] = [
+  {
+    id: EMPTY_POST_RULE_ID,
+    check: (row) => (row.ad.trim() ? null : 'Post text is empty.'),
+  },
+  {
+    id: 'no-links',
+    check: (row) => {
+      if (!hasTag(row, NO_LINKS_TAG)) return null;
+      return containsLink(row.ad) ? 'This group is tagged "no links" but the post contains a link.' : null;
+    },
+  },
+  {
+    id: 'max-length',
+    check: (row, options) => {
+      if (options.maxLength <= 0 || row.ad.length <= options.maxLength) return null;
+      return `Post is ${row.ad.length} characters, over the ${options.maxLength} limit.`;
+    },
+  },
+  {
+    id: 'broken-url',
+    check: (row) => {
+      const broken = findBrokenUrls(row.ad);
+      return broken.length ? `Broken link${broken.length === 1 ? '' : 's'}: ${broken.join(', ')}` : null;
+    },
+  },
+  {
+    id: 'placeholder',
+    check: (row) => {
+      const placeholder = findPlaceholder(row);
+      return placeholder ? `Leftover placeholder ${placeholder}` : null;
+    },
+  },
+];
+
+export function lintPost(row: LintTarget, options: LintOptions, rules: LintRule[] = DEFAULT_LINT_RULES): LintIssue[] {
+  return rules.flatMap((rule) => {
+    const message = rule.check(row, options);
+    return message ? [{ ruleId: rule.id, message }] : [];
+  });
+}
+
+export function containsLink(text: string): boolean {
+  return Boolean(text.match(URL_PATTERN)) || BARE_DOMAIN_PATTERN.test(text);
+}
+
+export function findBrokenUrls(text: string): string[] {
+  const candidates = text.match(URL_LIKE_PATTERN) ?? [];
+  return candidates.map((candidate) => candidate.replace(TRAILING_PUNCTUATION, '')).filter((candidate) => !isWellFormedUrl(candidate));
+}
+
+export function findPlaceholder(row: LintTarget): string | null {
+  const template = row.ad.match(TEMPLATE_PLACEHOLDER_PATTERN);
+  if (template) return template[0];
+  const names = new Set<string>([...BUILT_IN_VARIABLES, ...Object.keys(row.fields ?? {}).map(normalizeVariableName)]);
+  for (const match of row.ad.matchAll(NAMED_PLACEHOLDER_PATTERN)) {
+    const name = match.slice(1).find(Boolean);
+    if (name && names.has(normalizeVariableName(name))) return match[0];
+  }
+  return null;
+}
+
+function isWellFormedUrl(candidate: string): boolean {
+  const href = /^www\./i.test(candidate) ? `https://${candidate}` : candidate;
+  if (!/^https?:\/\//i.test(href)) return false;
+  try {
+    const url = new URL(href);
+    return /^[^.]+(\.[^.]+)+$/.test(url.hostname);
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest';
+import { findNextPendingId, firstPendingId, queueReducer, QueueContext, shufflePending, stepCurrentId } from './queue';
+import { AppState, QueueRow, RowStatusKind } from './types';
+
+const AT = '2024-05-01T12:00:00.000Z';
+const context: QueueContext = { cooldownDays: 0 };
+
+function row(id: string, status: RowStatusKind = 'pending', patch: Partial<QueueRow> = {}): QueueRow {
+  return {
+    id,
+    name: `Group ${id}`,
+    url: `https://www.facebook.com/groups/${id}/`,
+    ad: `Post for ${id}`,
+    status,
+    history: [],
+    ...patch,
+  };
+}
+
+function state(rows: QueueRow[], currentId: string | null = rows[0]?.id ?? null): AppState {
+  return { rows, currentId, filter: 'all', search: '' };
+}
+
+describe('queueReducer on an empty queue', () => {
+  const empty = state([]);
+
+  it('returns the same state for actions that target missing rows', () => {
+    expect(queueReducer(empty, { type: 'setStatus', id: 'a', status: 'posted', at: AT }, context)).toBe(empty);
+    expect(queueReducer(empty, { type: 'setStatuses', ids: ['a'], status: 'posted', at: AT, note: '' }, context)).toBe(empty);
+    expect(queueReducer(empty, { type: 'requeue', ids: ['a'], at: AT }, context)).toBe(empty);
+    expect(queueReducer(empty, { type: 'answerPostCheck', id: 'a', answer: 'posted', at: AT }, context)).toBe(empty);
+    expect(queueReducer(empty, { type: 'recordEvents', id: 'a', events: [] }, context)).toBe(empty);
+    expect(queueReducer(empty, { type: 'updateRow', id: 'a', patch: { ad: 'x' } }, context)).toBe(empty);
+    expect(queueReducer(empty, { type: 'deleteRows', ids: ['a'] }, context)).toBe(empty);
+    expect(queueReducer(empty, { type: 'setCurrent', id: 'a' }, context)).toBe(empty);
+  });
+
+  it('has nowhere to step or shuffle', () => {
+    expect(queueReducer(empty, { type: 'step', visibleIds: [], direction: 1 }, context)).toBe(empty);
+    expect(queueReducer(empty, { type: 'shuffle' }, context)).toBe(empty);
+    expect(findNextPendingId([], null, context)).toBeNull();
+    expect(firstPendingId([], context)).toBeNull();
+  });
+
+  it('makes the first added row current', () => {
+    const next = queueReducer(empty, { type: 'addRow', row: row('a') }, context);
+    expect(next.rows.map((item) => item.id)).toEqual(['a']);
+    expect(next.currentId).toBe('a');
+  });
+
+  it('clears the current row when an undo restores an empty queue', () => {
+    const next = queueReducer(state([row('a')]), { type: 'restore', rows: [], currentId: 'a' }, context);
+    expect(next.rows).toEqual([]);
+    expect(next.currentId).toBeNull();
+  });
+});
+
+describe('queueReducer when every row is done', () => {
+  const done = state([row('a', 'posted'), row('b', 'skipped'), row('c', 'failed')], 'b');
+
+  it('finds no pending row and falls back to the first row', () => {
+    expect(findNextPendingId(done.rows, 'b', context)).toBeNull();
+    expect(firstPendingId(done.rows, context)).toBe('a');
+  });
+
+  it('leaves no current row after marking the last pending row', () => {
+    const last = state([row('a', 'posted'), row('b')], 'b');
+    const next = queueReducer(last, { type: 'setStatus', id: 'b', status: 'posted', at: AT }, context);
+    expect(next.rows[1].status).toBe('posted');
+    expect(next.rows[1].history).toEqual([{ at: AT, action: 'posted' }]);
+    expect(next.currentId).toBeNull();
+  });
+
+  it('keeps the row current when not advancing', () => {
+    const next = queueReducer(done, { type: 'setStatus', id: 'a', status: 'skipped', at: AT, advance: false }, context);
+    expect(next.currentId).toBe('b');
+  });
+
+  it('leaves the order alone on shuffle', () => {
+    expect(queueReducer(done, { type: 'shuffle' }, context)).toBe(done);
+  });
+
+  it('clamps steps at both ends of the list', () => {
+    const ids = done.rows.map((item) => item.id);
+    expect(stepCurrentId(ids, 'c', 1)).toBe('c');
+    expect(stepCurrentId(ids, 'a', -1)).toBe('a');
+    expect(stepCurrentId(ids, null, -1)).toBe('c');
+  });
+
+  it('makes a requeued row current', () => {
+    const next = queueReducer(done, { type: 'requeue', ids: ['c'], at: AT }, context);
+    expect(next.rows[2].status).toBe('pending');
+    expect(next.currentId).toBe('c');
+  });
+});
+
+describe('queueReducer when the current row is removed or moved', () => {
+  const rows = [row('a', 'posted'), row('b'), row('c'), row('d')];
+
+  it('keeps the current row when an import reorders it', () => {
+    const next = queueReducer(state(rows, 'c'), { type: 'replaceRows', rows: [rows[2], rows[3], rows[0], rows[1]] }, context);
+    expect(next.rows.map((item) => item.id)).toEqual(['c', 'd', 'a', 'b']);
+    expect(next.currentId).toBe('c');
+  });
+
+  it('moves to the first pending row when an import drops the current row', () => {
+    const next = queueReducer(state(rows, 'b'), { type: 'replaceRows', rows: [rows[0], rows[3], rows[2]] }, context);
+    expect(next.currentId).toBe('d');
+  });
+
+  it('has no current row when an import leaves nothing', () => {
+    expect(queueReducer(state(rows, 'b'), { type: 'replaceRows', rows: [] }, context).currentId).toBeNull();
+  });
+
+  it('moves to the first pending row when the current row is deleted', () => {
+    const next = queueReducer(state(rows, 'c'), { type: 'deleteRows', ids: ['c'] }, context);
+    expect(next.rows.map((item) => item.id)).toEqual(['a', 'b', 'd']);
+    expect(next.currentId).toBe('b');
+  });
+
+  it('keeps the current row when it is dragged elsewhere', () => {
+    const next = queueReducer(state(rows, 'b'), { type: 'moveRow', id: 'b', targetId: 'd' }, context);
+    expect(next.rows.map((item) => item.id)).not.toEqual(['a', 'b', 'c', 'd']);
+    expect(next.currentId).toBe('b');
+  });
+
+  it('restores the saved current row on undo', () => {
+    const next = queueReducer(state(rows.slice(2), 'c'), { type: 'restore', rows, currentId: 'b' }, context);
+    expect(next.rows).toBe(rows);
+    expect(next.currentId).toBe('b');
+  });
+
+  it('falls back to the first pending row when undo restores rows without the saved current row', () => {
+    const next = queueReducer(state(rows, 'b'), { type: 'restore', rows: [rows[0], rows[3]], currentId: 'b' }, context);
+    expect(next.currentId).toBe('d');
+  });
+
+  it('keeps the templates when undo restores none', () => {
+    const templates = [{ id: 't', name: 'Template', body: 'Hi {{group_name}}' }];
+    const next = queueReducer({ ...state(rows), templates }, { type: 'restore', rows, currentId: null }, context);
+    expect(next.templates).toBe(templates);
+  });
+
+  it('follows the merged row when duplicates fold into another row', () => {
+    const duplicates = [row('a'), row('b', 'pending', { url: rows[0].url })];
+    const next = queueReducer(state(duplicates, 'b'), { type: 'mergeDuplicates', merges: [{ ids: ['a', 'b'], keepId: 'a' }] }, context);
+    expect(next.rows.map((item) => item.id)).toEqual(['a']);
+    expect(next.currentId).toBe('a');
+  });
+});
+
+describe('queueReducer advancing', () => {
+  it('wraps around to earlier pending rows', () => {
+    const next = queueReducer(state([row('a'), row('b'), row('c')], 'c'), { type: 'setStatus', id: 'c', status: 'posted', at: AT }, context);
+    expect(next.currentId).toBe('a');
+  });
+
+  it('skips rows whose group is cooling down', () => {
+    const posted = row('a', 'posted', { history: [{ at: new Date().toISOString(), action: 'posted' }] });
+    const sameGroup = row('b', 'pending', { url: posted.url });
+    const rows = [posted, sameGroup, row('c')];
+    expect(findNextPendingId(rows, 'a', { cooldownDays: 7 })).toBe('c');
+    expect(firstPendingId([posted, sameGroup], { cooldownDays: 7 })).toBe('b');
+  });
+
+  it('only advances a post check answer for the current row', () => {
+    const rows = [row('a'), row('b'), row('c')];
+    const current = queueReducer(state(rows, 'a'), { type: 'answerPostCheck', id: 'a', answer: 'posted', at: AT }, context);
+    expect(current.currentId).toBe('b');
+    const other = queueReducer(state(rows, 'c'), { type: 'answerPostCheck', id: 'a', answer: 'posted', at: AT }, context);
+    expect(other.currentId).toBe('c');
+    const notYet = queueReducer(state(rows, 'a'), { type: 'answerPostCheck', id: 'a', answer: 'not-yet', at: AT }, context);
+    expect(notYet.rows[0]).toMatchObject({ status: 'pending', history: [{ action: 'checked', answer: 'not-yet', at: AT }] });
+    expect(notYet.currentId).toBe('a');
+  });
+});
+
+describe('shufflePending', () => {
+  it('only moves pending rows between pending positions', () => {
+    const rows = [row('a', 'posted'), row('b'), row('c', 'failed'), row('d'), row('e')];
+    const shuffled = shufflePending(rows, () => 0);
+    expect(shuffled.map((item) => item.status)).toEqual(rows.map((item) => item.status));
+    expect(shuffled[0]).toBe(rows[0]);
+    expect(shuffled[2]).toBe(rows[2]);
+    expect(new Set(shuffled.map((item) => item.id))).toEqual(new Set(rows.map((item) => item.id)));
+  });
+});
@@ -0,0 +1,228 @@
+import { moveRows, moveRowTo, replaceInPosts, setRowsStatus } from './bulk';
+import { buildPostIndex, cooldownUntil, PostIndex } from './cooldown';
+import { mergeDuplicateRows } from './duplicates';
+import { AppState, PostCheckAnswer, PostTemplate, QueueRow, RowFilter, RowHistoryEntry, RowStatusKind } from './types';
+
+/** Outside facts the reducer needs; everything else comes from the state and the action. */
+export interface QueueContext {
+  cooldownDays: number;
+  /** Posts recorded in other workspaces, which count towards cooldowns here too. */
+  externalIndex?: PostIndex;
+  random?: () => number;
+}
+
+export type QueueAction =
+  /** Records a status change on one row and, unless `advance` is false, moves to the next available row. */
+  | { type: 'setStatus'; id: string; status: RowStatusKind; at: string; note?: string; advance?: boolean }
+  | { type: 'setStatuses'; ids: string[]; status: RowStatusKind; at: string; note: string }
+  | { type: 'requeue'; ids: string[]; at: string }
+  /**
+   * Records an answer to "Did it post?" and applies it: any answer but `not-yet` sets the status,
+   * advancing only when the row is still the current one.
+   */
+  | { type: 'answerPostCheck'; id: string; answer: PostCheckAnswer; at: string; note?: string }
+  | { type: 'setCurrent'; id: string | null }
+  /** Moves the current row one step through `visibleIds`, the rows the list is showing. */
+  | { type: 'step'; visibleIds: string[]; direction: 1 | -1 }
+  | { type: 'setFilter'; filter: RowFilter }
+  | { type: 'setSearch'; search: string }
+  | { type: 'shuffle' }
+  /** Replaces the row list, e.g. after an import, keeping the current row when it survives. */
+  | { type: 'replaceRows'; rows: QueueRow[] }
+  | { type: 'restore'; rows: QueueRow[]; currentId: string | null; templates?: PostTemplate[] }
+  | { type: 'addRow'; row: QueueRow }
+  | { type: 'updateRow'; id: string; patch: Partial<Omit<QueueRow, 'id'>> }
+  /** Appends Copy & Open events to a row and makes it current. */
+  | { type: 'recordEvents'; id: string; events: RowHistoryEntry[] }
+  | { type: 'deleteRows'; ids: string[] }
+  | { type: 'moveRow'; id: string; targetId: string }
+  | { type: 'moveRows'; ids: string[]; position: number }
+  | { type: 'replaceText'; ids: string[]; find: string; replacement: string; matchCase: boolean }
+  | { type: 'mergeDuplicates'; merges: { ids: string[]; keepId: string }[] }
+  | { type: 'addTemplate'; template: PostTemplate }
+  | { type: 'updateTemplate'; template: PostTemplate }
+  | { type: 'deleteTemplate'; id: string }
+  | { type: 'assignTemplate'; id: string };
+
+/**
+ * The whole queue as a pure function: every change to a workspace's rows, current row,
+ * filter and templates goes through here. Actions that change nothing return `state` itself.
+ */
+export function queueReducer(state: AppState, action: QueueAction, context: QueueContext): AppState {
+  switch (action.type) {
+    case 'setStatus': {
+      if (!state.rows.some((row) => row.id === action.id)) return state;
+      const rows = setRowsStatus(state.rows, new Set([action.id]), action.status, action.note, action.at);
+      const currentId =
+        action.advance === false ? state.currentId ?? action.id : findNextPendingId(rows, action.id, context);
+      return { ...state, rows, currentId };
+    }
+    case 'setStatuses': {
+      const ids = existingIds(state, action.ids);
+      return withRows(state, setRowsStatus(state.rows, ids, action.status, action.note, action.at), context);
+    }
+    case 'requeue': {
+      const ids = existingIds(state, action.ids);
+      const rows = setRowsStatus(state.rows, ids, 'pending', 'requeued after failure', action.at);
+      if (rows === state.rows) return state;
+      const current = rows.find((row) => row.id === state.currentId);
+      const currentId = current && current.status === 'pending' ? current.id : action.ids.find((id) => ids.has(id)) ?? null;
+      return { ...state, rows, currentId };
+    }
+    case 'answerPostCheck': {
+      if (!state.rows.some((row) => row.id === action.id)) return state;
+      const checked: RowHistoryEntry = { action: 'checked', at: action.at, answer: action.answer };
+      const answered = updateRows(state, (row) => (row.id === action.id ? { ...row, history: [...row.history, checked] } : row));
+      if (action.answer === 'not-yet') return answered;
+      return queueReducer(
+        answered,
+        {
+          type: 'setStatus',
+          id: action.id,
+          status: action.answer,
+          at: action.at,
+          note: action.note,
+          advance: state.currentId === action.id,
+        },
+        context
+      );
+    }
+    case 'setCurrent':
+      if (action.id === state.currentId) return state;
+      if (action.id !== null && !state.rows.some((row) => row.id === action.id)) return state;
+      return { ...state, currentId: action.id };
+    case 'step': {
+      const currentId = stepCurrentId(action.visibleIds, state.currentId, action.direction);
+      return currentId === null || currentId === state.currentId ? state : { ...state, currentId };
+    }
+    case 'setFilter':
+      return action.filter === state.filter ? state : { ...state, filter: action.filter };
+    case 'setSearch':
+      return action.search === state.search ? state : { ...state, search: action.search };
+    case 'shuffle':
+      return withRows(state, shufflePending(state.rows, context.random), context);
+    case 'replaceRows':
+      return withRows(state, action.rows, context);
+    case 'restore':
+      return {
+        ...state,
+        rows: action.rows,
+        currentId:
+          action.currentId && action.rows.some((row) => row.id === action.currentId)
+            ? action.currentId
+            : firstPendingId(action.rows, context),
+        templates: action.templates?.length ? action.templates : state.templates,
+      };
+    case 'addRow':
+      return { ...state, rows: [...state.rows, action.row], currentId: state.currentId ?? action.row.id };
+    case 'updateRow':
+      return updateRows(state, (row) => (row.id === action.id ? { ...row, ...action.patch } : row));
+    case 'recordEvents':
+      if (!state.rows.some((row) => row.id === action.id)) return state;
+      return {
+        ...updateRows(state, (row) => (row.id === action.id ? { ...row, history: [...row.history, ...action.events] } : row)),
+        currentId: action.id,
+      };
+    case 'deleteRows': {
+      const ids = existingIds(state, action.ids);
+      if (!ids.size) return state;
+      return withRows(state, state.rows.filter((row) => !ids.has(row.id)), context);
+    }
+    case 'moveRow':
+      return withRows(state, moveRowTo(state.rows, action.id, action.targetId), context);
+    case 'moveRows':
+      return withRows(state, moveRows(state.rows, existingIds(state, action.ids), action.position), context);
+    case 'replaceText':
+      return withRows(
+        state,
+        replaceInPosts(state.rows, existingIds(state, action.ids), action.find, action.replacement, {
+          matchCase: action.matchCase,
+        }).rows,
+        context
+      );
+    case 'mergeDuplicates': {
+      const rows = action.merges.reduce((acc, merge) => mergeDuplicateRows(acc, merge.ids, merge.keepId), state.rows);
+      if (rows === state.rows) return state;
+      const merged = action.merges.find((merge) => state.currentId && merge.ids.includes(state.currentId));
+      return { ...state, rows, currentId: merged ? merged.keepId : state.currentId };
+    }
+    case 'addTemplate':
+      return { ...state, templates: [...(state.templates ?? []), action.template] };
+    case 'updateTemplate':
+      return {
+        ...state,
+        templates: (state.templates ?? []).map((item) => (item.id === action.template.id ? action.template : item)),
+      };
+    case 'deleteTemplate':
+      return {
+        ...updateRows(state, (row) => (row.templateId === action.id ? { ...row, templateId: undefined } : row)),
+        templates: (state.templates ?? []).filter((item) => item.id !== action.id),
+      };
+    case 'assignTemplate':
+      return updateRows(state, (row) => (row.templateId === action.id ? row : { ...row, templateId: action.id }));
+  }
+}
+
+/** Next pending row after `afterId`, wrapping around and skipping rows whose group is still cooling down. */
+export function findNextPendingId(rows: QueueRow[], afterId: string | null | undefined, context: QueueContext): string | null {
+  if (!rows.length) return null;
+  const index = buildPostIndex(rows, context.externalIndex);
+  const startIndex = afterId ? rows.findIndex((row) => row.id === afterId) : -1;
+  for (let offset = 1; offset <= rows.length; offset += 1) {
+    const candidate = rows[(startIndex + offset) % rows.length];
+    if (candidate.status === 'pending' && cooldownUntil(candidate, index, context.cooldownDays) === null) return candidate.id;
+  }
+  return null;
+}
+
+/** First pending row not cooling down, then any pending row, then the first row. */
+export function firstPendingId(rows: QueueRow[], context: QueueContext): string | null {
+  const index = buildPostIndex(rows, context.externalIndex);
+  const pendingRow =
+    rows.find((row) => row.status === 'pending' && cooldownUntil(row, index, context.cooldownDays) === null) ??
+    rows.find((row) => row.status === 'pending');
+  return pendingRow ? pendingRow.id : rows[0]?.id ?? null;
+}
+
+/** Shuffles pending rows among the positions pending rows already occupy. */
+export function shufflePending(rows: QueueRow[], random: () => number = Math.random): QueueRow[] {
+  const shuffled = rows.filter((row) => row.status === 'pending');
+  if (shuffled.length < 2) return rows;
+  for (let i = shuffled.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  let pendingIndex = 0;
+  return rows.map((row) => (row.status === 'pending' ? shuffled[pendingIndex++] : row));
+}
+
+/** Row `direction` steps from the current one in `visibleIds`, clamped at both ends. */
+export function stepCurrentId(visibleIds: string[], currentId: string | null, direction: 1 | -1): string | null {
+  if (!visibleIds.length) return null;
+  const index = currentId ? visibleIds.indexOf(currentId) : -1;
+  if (index === -1) return direction === 1 ? visibleIds[0] : visibleIds[visibleIds.length - 1];
+  return visibleIds[Math.min(Math.max(index + direction, 0), visibleIds.length - 1)];
+}
+
+/** New rows, keeping the current row if it is still there and falling back to the first pending one. */
+function withRows(state: AppState, rows: QueueRow[], context: QueueContext): AppState {
+  if (rows === state.rows) return state;
+  const currentId =
+    state.currentId && rows.some((row) => row.id === state.currentId) ? state.currentId : firstPendingId(rows, context);
+  return { ...state, rows, currentId };
+}
+
+function updateRows(state: AppState, update: (row: QueueRow) => QueueRow): AppState {
+  let changed = false;
+  const rows = state.rows.map((row) => {
+    const next = update(row);
+    if (next !== row) changed = true;
+    return next;
+  });
+  return changed ? { ...state, rows } : state;
+}
+
+function existingIds(state: AppState, ids: string[]): Set<string> {
+  const wanted = new Set(ids);
+  return new Set(state.rows.filter((row) => wanted.has(row.id)).map((row) => row.id));
+}
@@ -0,0 +1,45 @@
+import { QueueRow, RowHistoryEntry } from './types';
+
+/**
+ * Three-way merge of one row: each field takes the side that changed it since `base`, and a
+ * field both sides changed goes to `remote` when `remoteWins`. History entries added on
+ * either side are all kept. Returns `local` itself when the merge changes nothing.
+ */
+export function mergeRowFields(base: QueueRow, local: QueueRow, remote: QueueRow, remoteWins: boolean): QueueRow {
+  const merged: Record<string, unknown> = {};
+  let changed = false;
+  const keys = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)] as (keyof QueueRow)[]);
+  keys.forEach((key) => {
+    const value =
+      key === 'history'
+        ? mergeHistory(base.history, local.history, remote.history)
+        : mergeField(base[key], local[key], remote[key], remoteWins);
+    if (value !== local[key]) changed = true;
+    if (value !== undefined) merged[key] = value;
+  });
+  return changed ? (merged as unknown as QueueRow) : local;
+}
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function mergeField<T>(base: T, local: T, remote: T, remoteWins: boolean): T {
+  if (sameValue(local, remote) || sameValue(remote, base)) return local;
+  if (sameValue(local, base)) return remote;
+  return remoteWins ? remote : local;
+}
+
+/** Entries either side added since `base`, minus any either side removed (e.g. by undo), in time order. */
+function mergeHistory(base: RowHistoryEntry[], local: RowHistoryEntry[], remote: RowHistoryEntry[]): RowHistoryEntry[] {
+  if (sameValue(local, remote) || sameValue(remote, base)) return local;
+  if (sameValue(local, base)) return remote;
+  const key = (entry: RowHistoryEntry) => JSON.stringify(entry);
+  const baseKeys = new Set(base.map(key));
+  const localKeys = new Set(local.map(key));
+  const remoteKeys = new Set(remote.map(key));
+  return [
+    ...local.filter((entry) => !baseKeys.has(key(entry)) || remoteKeys.has(key(entry))),
+    ...remote.filter((entry) => !baseKeys.has(key(entry)) && !localKeys.has(key(entry))),
+  ].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+}
@@ -0,0 +1,176 @@
+import { clearSession, loadSession, migrateState, saveSession, SESSION_SCHEMA } from './storage';
+import { QueueRow, SessionState, Workspace } from './types';
+
+/** Persistence backend for the session. `save` rejects when the write did not land. */
+export interface SessionStore {
+  kind: 'indexeddb' | 'localstorage';
+  load(): Promise<SessionState | null>;
+  save(session: SessionState): Promise<void>;
+}
+
+const DB_NAME = 'paste-happy';
+const DB_VERSION = 1;
+/** Rows keyed by `[workspaceId, rowId]`, stored out of line. */
+const ROW_STORE = 'workspaceRows';
+const META_STORE = 'meta';
+const SESSION_META_KEY = 'session';
+
+type WorkspaceMeta = Omit<Workspace, 'rows'> & { order: string[] };
+
+interface SessionMeta {
+  version: number;
+  activeWorkspaceId: string;
+  workspaces: WorkspaceMeta[];
+}
+
+export function createSessionStore(): SessionStore {
+  return typeof indexedDB !== 'undefined' ? createIndexedDbSessionStore() : createLocalSessionStore();
+}
+
+export function createLocalSessionStore(): SessionStore {
+  return {
+    kind: 'localstorage',
+    async load() {
+      return loadSession();
+    },
+    async save(session) {
+      saveSession(session);
+    },
+  };
+}
+
+/**
+ * Rows live in their own object store so a save only rewrites rows whose object
+ * identity changed since the last successful write, plus one small meta record.
+ * On first use the localStorage session is migrated in and then removed.
+ */
+export function createIndexedDbSessionStore(): SessionStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let persisted = new Map<string, QueueRow>();
+  let migratedFromLocalStorage = false;
+
+  const open = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().catch((error) => {
+        dbPromise = null;
+        throw error;
+      });
+    }
+    return dbPromise;
+  };
+
+  return {
+    kind: 'indexeddb',
+    async load() {
+      const db = await open();
+      const tx = db.transaction([ROW_STORE, META_STORE], 'readonly');
+      const meta = await requestToPromise<SessionMeta | undefined>(tx.objectStore(META_STORE).get(SESSION_META_KEY));
+
+      if (!meta) {
+        migratedFromLocalStorage = true;
+        return loadSession();
+      }
+
+      const workspaces = await Promise.all(
+        meta.workspaces.map(async ({ order, ...workspace }) => {
+          const range = IDBKeyRange.bound([workspace.id], [workspace.id, []]);
+          const rows = await requestToPromise<QueueRow[]>(tx.objectStore(ROW_STORE).getAll(range));
+          return { ...workspace, rows: orderRows(rows, order) };
+        })
+      );
+      const session = migrateState(
+        { version: meta.version, data: { activeWorkspaceId: meta.activeWorkspaceId, workspaces } },
+        SESSION_SCHEMA
+      ) as SessionState;
+      persisted = snapshot(session);
+      return session;
+    },
+    async save(session) {
+      const db = await open();
+      const tx = db.transaction([ROW_STORE, META_STORE], 'readwrite');
+      const rowStore = tx.objectStore(ROW_STORE);
+      const next = snapshot(session);
+
+      next.forEach((row, key) => {
+        if (persisted.get(key) !== row) rowStore.put(row, parseRowKey(key));
+      });
+      persisted.forEach((_row, key) => {
+        if (!next.has(key)) rowStore.delete(parseRowKey(key));
+      });
+
+      const meta: SessionMeta = {
+        version: SESSION_SCHEMA.version,
+        activeWorkspaceId: session.activeWorkspaceId,
+        workspaces: session.workspaces.map(({ rows, ...workspace }) => ({
+          ...workspace,
+          order: rows.map((row) => row.id),
+        })),
+      };
+      tx.objectStore(META_STORE).put(meta, SESSION_META_KEY);
+
+      await transactionDone(tx);
+      persisted = next;
+      if (migratedFromLocalStorage) {
+        migratedFromLocalStorage = false;
+        clearSession();
+      }
+    },
+  };
+}
+
+export function describeStorageError(error: unknown): string {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  if (name === 'QuotaExceededError') {
+    return 'Browser storage is full, so recent progress is not being saved. Download a backup, then free up space.';
+  }
+  if (name === 'InvalidStateError' || name === 'SecurityError') {
+    return 'This browser blocked storage access (private mode?), so progress is not being saved.';
+  }
+  return 'Progress could not be saved. Download a backup to keep your work.';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ROW_STORE)) db.createObjectStore(ROW_STORE);
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab.'));
+  });
+}
+
+function snapshot(session: SessionState): Map<string, QueueRow> {
+  const rows = new Map<string, QueueRow>();
+  session.workspaces.forEach((workspace) => {
+    workspace.rows.forEach((row) => rows.set(JSON.stringify([workspace.id, row.id]), row));
+  });
+  return rows;
+}
+
+function parseRowKey(key: string): [string, string] {
+  return JSON.parse(key) as [string, string];
+}
+
+function orderRows(rows: QueueRow[], order: string[]): QueueRow[] {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  return order.map((id) => byId.get(id)).filter((row): row is QueueRow => Boolean(row));
+}
+
+function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Storage transaction aborted.'));
+  });
+}
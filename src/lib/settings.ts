@@ -0,0 +1,35 @@
+import { loadState, saveState } from './storage';
+
+export interface AppSettings {
+  /** Minimum days between posts to the same group; 0 disables the cooldown. */
+  cooldownDays: number;
+  /** Copy & Open is blocked once this many posts were marked in the current session; 0 disables. */
+  maxPostsPerSession: number;
+  /** Same, per calendar day; 0 disables. */
+  maxPostsPerDay: number;
+  /** Minimum minutes between Mark Posted actions; 0 disables. */
+  minIntervalMinutes: number;
+  /** Posts longer than this many characters get a warning before Copy & Open; 0 disables. */
+  maxPostLength: number;
+  /** Rows opened with Copy & Open but not marked after this many minutes show under Follow-up; 0 disables. */
+  followUpMinutes: number;
+}
+
+const SETTINGS_KEY = 'paste-happy-settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  cooldownDays: 7,
+  maxPostsPerSession: 0,
+  maxPostsPerDay: 0,
+  minIntervalMinutes: 0,
+  maxPostLength: 0,
+  followUpMinutes: 30,
+};
+
+export function loadSettings(): AppSettings {
+  return { ...DEFAULT_SETTINGS, ...loadState<Partial<AppSettings>>(SETTINGS_KEY, {}) };
+}
+
+export function saveSettings(settings: AppSettings): void {
+  saveState(SETTINGS_KEY, settings);
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorage } from '../test/memoryStorage';
+import { importControlCenterProgress, loadSession, migrateState, SESSION_SCHEMA, SESSION_STORAGE_KEY } from './storage';
+import { AppState, QueueRow, SessionState } from './types';
+import { createWorkspace } from './workspaces';
+
+function row(id: string, patch: Partial<QueueRow> = {}): QueueRow {
+  return { id, name: `Group ${id}`, url: `https://www.facebook.com/groups/${id}/`, ad: '', status: 'pending', history: [], ...patch };
+}
+
+function session(rows: QueueRow[]): SessionState {
+  const workspace = createWorkspace('Test', { rows, currentId: rows[0]?.id ?? null });
+  return { workspaces: [workspace], activeWorkspaceId: workspace.id };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', new MemoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('session migration 0 → 1', () => {
+  it('turns a raw row array with `done` flags into an app state', () => {
+    const migrated = migrateState(
+      {
+        version: 0,
+        data: [
+          { id: 7, group_name: 'Folsom', group_url: 'https://www.facebook.com/groups/1/', post: 'Hi', done: true, lastPostedAt: '2024-01-01T00:00:00.000Z' },
+          { name: 'Gardeners', url: 'https://www.facebook.com/groups/2/', ad: 'Plant swap', status: 'pending' },
+        ],
+      },
+      { version: 1, migrations: SESSION_SCHEMA.migrations }
+    ) as AppState;
+    expect(migrated.rows[0]).toEqual({
+      id: '7',
+      name: 'Folsom',
+      url: 'https://www.facebook.com/groups/1/',
+      ad: 'Hi',
+      status: 'posted',
+      history: [],
+      lastChangedAt: '2024-01-01T00:00:00.000Z',
+    });
+    expect(migrated.rows[1]).toMatchObject({ name: 'Gardeners', ad: 'Plant swap', status: 'pending' });
+    expect(migrated.rows[1].id).toBeTruthy();
+    expect(migrated.currentId).toBe(migrated.rows[1].id);
+    expect(migrated).toMatchObject({ filter: 'all', search: '' });
+  });
+
+  it('maps `currentIndex`, `done` history and an unknown filter', () => {
+    const migrated = migrateState(
+      {
+        version: 0,
+        data: {
+          currentIndex: 1,
+          filter: 'nonsense',
+          rows: [row('a'), { ...row('b'), history: [{ at: '2024-01-02T00:00:00.000Z', action: 'done' }, { action: 'skipped' }] }],
+        },
+      },
+      { version: 1, migrations: SESSION_SCHEMA.migrations }
+    ) as AppState;
+    expect(migrated.currentId).toBe('b');
+    expect(migrated.filter).toBe('all');
+    expect(migrated.rows[1].history).toEqual([
+      { at: '2024-01-02T00:00:00.000Z', action: 'posted', note: undefined },
+      { at: new Date(0).toISOString(), action: 'skipped', note: undefined },
+    ]);
+  });
+
+  it('treats anything but rows as an empty queue', () => {
+    expect(migrateState({ version: 0, data: 'garbage' }, { version: 1, migrations: SESSION_SCHEMA.migrations })).toEqual({
+      rows: [],
+      currentId: null,
+      filter: 'all',
+      search: '',
+    });
+  });
+});
+
+describe('session migration 1 → 2', () => {
+  it('wraps the app state in a single active workspace', () => {
+    const state: AppState = { rows: [row('a'), row('b')], currentId: 'b', filter: 'pending', search: 'gro' };
+    const migrated = migrateState({ version: 1, data: state }, SESSION_SCHEMA) as SessionState;
+    expect(migrated.workspaces).toHaveLength(1);
+    expect(migrated.activeWorkspaceId).toBe(migrated.workspaces[0].id);
+    expect(migrated.workspaces[0]).toMatchObject({ ...state, archived: false, templates: [] });
+  });
+
+  it('runs both migrations for unversioned data and rejects newer versions', () => {
+    const migrated = migrateState({ version: 0, data: [row('a')] }, SESSION_SCHEMA) as SessionState;
+    expect(migrated.workspaces[0].rows.map((item) => item.id)).toEqual(['a']);
+    expect(() => migrateState({ version: 3, data: {} }, SESSION_SCHEMA)).toThrow('newer than supported');
+  });
+
+  it('loads legacy localStorage keys through the migrations', () => {
+    localStorage.setItem('paste-happy-session-v2', JSON.stringify({ version: 1, data: { rows: [row('a', { status: 'posted' })] } }));
+    expect(loadSession()?.workspaces[0].rows[0]).toMatchObject({ id: 'a', status: 'posted' });
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify({ version: 2, data: session([row('b')]) }));
+    expect(loadSession()?.workspaces[0].rows[0].id).toBe('b');
+  });
+});
+
+describe('importControlCenterProgress', () => {
+  const saveControlCenter = (key: string, statuses: { id: string; status: string }[]) =>
+    localStorage.setItem(`fb-control-center:${key}`, JSON.stringify({ currentIndex: 0, statuses }));
+
+  it('marks the page’s hard-coded groups posted by name and URL', () => {
+    const rows = [
+      row('x', { name: 'Local Gardeners', url: 'https://m.facebook.com/groups/localgardeners/?ref=share' }),
+      row('y', { name: 'Neighborhood Helpers', url: 'https://www.facebook.com/groups/neighborhoodhelpers/' }),
+    ];
+    saveControlCenter('default', [
+      { id: 'grp-001', status: 'pending' },
+      { id: 'grp-002', status: 'done' },
+    ]);
+    const next = importControlCenterProgress(session(rows)).workspaces[0].rows;
+    expect(next[0]).toMatchObject({ status: 'posted', history: [{ action: 'posted', note: 'imported from control center' }] });
+    expect(next[1]).toBe(rows[1]);
+  });
+
+  it('matches statuses by row ID', () => {
+    const rows = [row('a'), row('b')];
+    saveControlCenter('default', [{ id: 'b', status: 'done' }]);
+    const next = importControlCenterProgress(session(rows)).workspaces[0].rows;
+    expect(next.map((item) => item.status)).toEqual(['pending', 'posted']);
+  });
+
+  it('skips positional `row-<index>` IDs and rows without a match', () => {
+    const rows = [row('a'), row('b'), row('row-1')];
+    saveControlCenter('csv', [
+      { id: 'row-0', status: 'done' },
+      { id: 'row-1', status: 'done' },
+      { id: 'grp-003', status: 'done' },
+      { id: 'unknown', status: 'done' },
+    ]);
+    const before = session(rows);
+    expect(importControlCenterProgress(before).workspaces[0].rows).toBe(before.workspaces[0].rows);
+  });
+
+  it('imports each key only once and leaves marked rows alone', () => {
+    const rows = [row('a'), row('b', { status: 'skipped' })];
+    saveControlCenter('default', [
+      { id: 'a', status: 'done' },
+      { id: 'b', status: 'done' },
+    ]);
+    const first = importControlCenterProgress(session(rows));
+    expect(first.workspaces[0].rows.map((item) => item.status)).toEqual(['posted', 'skipped']);
+    const again = session(rows);
+    expect(importControlCenterProgress(again)).toBe(again);
+  });
+});
@@ -1,30 +1,264 @@
+import { createId } from './id';
+import { makeMergeKey } from './importMerge';
+import { AppState, QueueRow, RowHistoryEntry, RowStatusKind, SessionState } from './types';
+import { createWorkspace, DEFAULT_WORKSPACE_NAME, updateActiveWorkspace } from './workspaces';
+
 export interface PersistedState<T> {
   version: number;
   data: T;
 }
 
-export function loadState<T>(key: string, defaultValue: T): T {
+/** Upgrades persisted data from the version it is registered under to the next one. */
+export type StateMigration = (data: unknown) => unknown;
+
+export interface StateSchema {
+  version: number;
+  migrations: Record<number, StateMigration>;
+}
+
+export const SESSION_STORAGE_KEY = 'paste-happy-session-v3';
+
+const LEGACY_SESSION_KEYS = ['paste-happy-session-v2', 'paste-happy-session-v1'];
+const CONTROL_CENTER_PREFIX = 'fb-control-center:';
+const LEGACY_IMPORTS_KEY = 'paste-happy-legacy-imports';
+
+/** The groups hard-coded in `control-center.html`; its saved statuses only carry these IDs. */
+const CONTROL_CENTER_ROWS: Record<string, { name: string; url: string }> = {
+  'grp-001': { name: 'Neighborhood Helpers', url: 'https://www.facebook.com/groups/neighborhoodhelpers' },
+  'grp-002': { name: 'Local Gardeners', url: 'https://www.facebook.com/groups/localgardeners' },
+  'grp-003': { name: 'Makers & Tinkerers', url: 'https://www.facebook.com/groups/makerstinkerers' },
+};
+
+/**
+ * Session schema history:
+ * 0 – unversioned or pre-v3 data (raw row arrays, control-center style fields, `done` status).
+ * 1 – `AppState` with rows, currentId, filter and search.
+ * 2 – `SessionState`: named workspaces, each holding a version 1 `AppState`.
+ */
+export const SESSION_SCHEMA: StateSchema = {
+  version: 2,
+  migrations: {
+    0: migrateLegacySession,
+    1: migrateToWorkspaces,
+  },
+};
+
+export function loadState<T>(key: string, defaultValue: T, schema?: StateSchema): T {
   if (typeof localStorage === 'undefined') return defaultValue;
   try {
     const raw = localStorage.getItem(key);
     if (!raw) return defaultValue;
-    const parsed = JSON.parse(raw) as PersistedState<T> | T;
-    if (parsed && typeof parsed === 'object' && 'data' in parsed) {
-      return (parsed as PersistedState<T>).data;
-    }
-    return parsed as T;
+    const persisted = toPersisted(JSON.parse(raw));
+    if (!schema) return persisted.data as T;
+    return migrateState(persisted, schema) as T;
   } catch (error) {
     console.warn('Failed to load state', error);
     return defaultValue;
   }
 }
 
-export function saveState<T>(key: string, value: T): void {
+export function saveState<T>(key: string, value: T, version = 1): void {
   if (typeof localStorage === 'undefined') return;
   try {
-    const wrapped: PersistedState<T> = { version: 1, data: value };
+    const wrapped: PersistedState<T> = { version, data: value };
     localStorage.setItem(key, JSON.stringify(wrapped));
   } catch (error) {
     console.warn('Failed to save state', error);
   }
 }
+
+export function migrateState(persisted: PersistedState<unknown>, schema: StateSchema): unknown {
+  if (persisted.version > schema.version) {
+    throw new Error(`Stored version ${persisted.version} is newer than supported version ${schema.version}.`);
+  }
+  let { version, data } = persisted;
+  while (version < schema.version) {
+    const migration = schema.migrations[version];
+    if (!migration) {
+      throw new Error(`No migration registered for version ${version}.`);
+    }
+    data = migration(data);
+    version += 1;
+  }
+  return data;
+}
+
+export function createEmptySession(): SessionState {
+  const workspace = createWorkspace(DEFAULT_WORKSPACE_NAME);
+  return { workspaces: [workspace], activeWorkspaceId: workspace.id };
+}
+
+/**
+ * Loads the localStorage session, falling back to older session keys when the
+ * current key is empty. Returns null when nothing has been stored yet.
+ */
+export function loadSession(): SessionState | null {
+  if (typeof localStorage === 'undefined') return null;
+
+  if (localStorage.getItem(SESSION_STORAGE_KEY)) {
+    return loadState<SessionState | null>(SESSION_STORAGE_KEY, null, SESSION_SCHEMA);
+  }
+  const legacyKey = LEGACY_SESSION_KEYS.find((key) => localStorage.getItem(key));
+  return legacyKey ? loadLegacySession(legacyKey) : null;
+}
+
+/** Unlike `saveState`, failures are thrown so callers can surface them. */
+export function saveSession(state: SessionState): void {
+  if (typeof localStorage === 'undefined') return;
+  const wrapped: PersistedState<SessionState> = { version: SESSION_SCHEMA.version, data: state };
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(wrapped));
+}
+
+export function clearSession(): void {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+function loadLegacySession(key: string): SessionState | null {
+  try {
+    // Older builds wrapped every session as version 1 regardless of shape, so the
+    // wrapper version is ignored and the data is normalized from scratch.
+    const { data } = toPersisted(JSON.parse(localStorage.getItem(key) ?? 'null'));
+    return migrateState({ version: 0, data }, SESSION_SCHEMA) as SessionState;
+  } catch (error) {
+    console.warn(`Failed to import legacy session ${key}`, error);
+    return null;
+  }
+}
+
+/**
+ * The retired `control-center.html` page stored `{ currentIndex, statuses: [{ id, status }] }` per session.
+ * Statuses are matched by row ID, and the page's hard-coded groups also by name plus canonical URL.
+ * `row-<index>` IDs only gave a position in a CSV the page was handed, which says nothing about
+ * the rows queued here, so they are skipped. `done` becomes `posted`; each key is imported once,
+ * into whichever workspace is active at the time.
+ */
+export function importControlCenterProgress(session: SessionState): SessionState {
+  if (typeof localStorage === 'undefined') return session;
+  const imported = new Set(loadState<string[]>(LEGACY_IMPORTS_KEY, []));
+  const keys = Object.keys(localStorage).filter((key) => key.startsWith(CONTROL_CENTER_PREFIX) && !imported.has(key));
+  if (!keys.length) return session;
+  const next = updateActiveWorkspace(session, (state) => applyControlCenterProgress(state, keys));
+  saveState(LEGACY_IMPORTS_KEY, [...imported, ...keys]);
+  return next;
+}
+
+function applyControlCenterProgress(state: AppState, keys: string[]): AppState {
+  const now = new Date().toISOString();
+  let rows = state.rows;
+  keys.forEach((key) => {
+    const { data } = toPersisted(safeParse(localStorage.getItem(key)));
+    const statuses = isRecord(data) && Array.isArray(data.statuses) ? data.statuses : [];
+    statuses.forEach((item: unknown) => {
+      if (!isRecord(item) || typeof item.id !== 'string' || normalizeStatus(item.status) !== 'posted') return;
+      const index = findControlCenterRow(rows, item.id);
+      if (index === -1 || rows[index].status !== 'pending') return;
+      rows = rows.map((row, rowIndex) =>
+        rowIndex === index
+          ? {
+              ...row,
+              status: 'posted',
+              lastChangedAt: now,
+              history: [...row.history, { action: 'posted', at: now, note: 'imported from control center' }],
+            }
+          : row
+      );
+    });
+  });
+
+  return rows === state.rows ? state : { ...state, rows };
+}
+
+function findControlCenterRow(rows: QueueRow[], id: string): number {
+  if (/^row-\d+$/.test(id)) return -1;
+  const byId = rows.findIndex((row) => row.id === id);
+  if (byId !== -1) return byId;
+  const known = CONTROL_CENTER_ROWS[id];
+  if (!known) return -1;
+  const key = makeMergeKey(known.name, known.url);
+  return rows.findIndex((row) => makeMergeKey(row.name, row.url) === key);
+}
+
+function migrateLegacySession(data: unknown): AppState {
+  const source = Array.isArray(data) ? { rows: data } : isRecord(data) ? data : {};
+  const rawRows = Array.isArray(source.rows) ? source.rows : [];
+  const rows = rawRows.filter(isRecord).map(migrateLegacyRow);
+
+  let currentId = typeof source.currentId === 'string' ? source.currentId : null;
+  if (currentId === null && typeof source.currentIndex === 'number') {
+    currentId = rows[source.currentIndex]?.id ?? null;
+  }
+  if (currentId !== null && !rows.some((row) => row.id === currentId)) {
+    currentId = null;
+  }
+
+  const filter = source.filter === 'all' || isStatus(source.filter) ? source.filter : 'all';
+  return {
+    rows,
+    currentId: currentId ?? rows.find((row) => row.status === 'pending')?.id ?? rows[0]?.id ?? null,
+    filter,
+    search: typeof source.search === 'string' ? source.search : '',
+  };
+}
+
+function migrateToWorkspaces(data: unknown): SessionState {
+  const workspace = createWorkspace(DEFAULT_WORKSPACE_NAME, data as AppState);
+  return { workspaces: [workspace], activeWorkspaceId: workspace.id };
+}
+
+function migrateLegacyRow(row: Record<string, unknown>): QueueRow {
+  const status = row.done === true ? 'posted' : normalizeStatus(row.status);
+  const history = Array.isArray(row.history) ? row.history.filter(isRecord).map(migrateHistoryEntry) : [];
+  const lastChangedAt = firstString(row.lastChangedAt, row.lastPostedAt, history[history.length - 1]?.at);
+
+  return {
+    id: typeof row.id === 'string' && row.id ? row.id : typeof row.id === 'number' ? String(row.id) : createId(),
+    name: firstString(row.name, row.group_name, row.groupName) ?? '',
+    url: firstString(row.url, row.group_url, row.groupUrl) ?? '',
+    ad: firstString(row.ad, row.post, row.text) ?? '',
+    status,
+    history,
+    lastChangedAt,
+  };
+}
+
+function migrateHistoryEntry(entry: Record<string, unknown>): RowHistoryEntry {
+  return {
+    at: typeof entry.at === 'string' ? entry.at : new Date(0).toISOString(),
+    action: normalizeStatus(entry.action),
+    note: typeof entry.note === 'string' ? entry.note : undefined,
+  };
+}
+
+function normalizeStatus(value: unknown): RowStatusKind {
+  if (value === 'done') return 'posted';
+  return isStatus(value) ? value : 'pending';
+}
+
+function isStatus(value: unknown): value is RowStatusKind {
+  return typeof value === 'string' && ['pending', 'posted', 'skipped', 'failed'].includes(value);
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  return values.find((value): value is string => typeof value === 'string');
+}
+
+function toPersisted(parsed: unknown): PersistedState<unknown> {
+  if (isRecord(parsed) && 'data' in parsed && typeof parsed.version === 'number') {
+    return { version: parsed.version, data: parsed.data };
+  }
+  return { version: 0, data: parsed };
+}
+
+function safeParse(raw: string | null): unknown {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { queueReducer } from './queue';
+import { mergeSessions } from './tabSync';
+import { AppState, QueueRow, SessionState } from './types';
+
+const context = { cooldownDays: 0 };
+
+function row(id: string, patch: Partial<QueueRow> = {}): QueueRow {
+  return { id, name: `Group ${id}`, url: `https://www.facebook.com/groups/${id}/`, ad: `Post ${id}`, status: 'pending', history: [], ...patch };
+}
+
+function session(rows: QueueRow[]): SessionState {
+  return {
+    activeWorkspaceId: 'w',
+    workspaces: [{ id: 'w', name: 'Campaign', archived: false, createdAt: '2024-05-01T00:00:00.000Z', rows, currentId: rows[0]?.id ?? null, filter: 'all', search: '' }],
+  };
+}
+
+/** Applies a reducer action to the only workspace, as a tab would. */
+function apply(source: SessionState, action: Parameters<typeof queueReducer>[1]): SessionState {
+  const [workspace] = source.workspaces;
+  const next = queueReducer(workspace as AppState, action, context);
+  return { ...source, workspaces: [{ ...workspace, ...next }] };
+}
+
+const rowsOf = (merged: SessionState) => merged.workspaces[0].rows;
+
+describe('mergeSessions', () => {
+  const base = session([row('a'), row('b'), row('c')]);
+
+  it('returns local itself when the other tab changed nothing', () => {
+    const local = apply(base, { type: 'setCurrent', id: 'b' });
+    expect(mergeSessions(base, local, base)).toBe(local);
+  });
+
+  it('keeps changes both tabs made to different rows', () => {
+    const local = apply(base, { type: 'setStatus', id: 'a', status: 'posted', at: '2024-05-01T10:00:00.000Z' });
+    const remote = apply(base, { type: 'setStatus', id: 'b', status: 'skipped', at: '2024-05-01T10:01:00.000Z' });
+    expect(rowsOf(mergeSessions(base, local, remote)).map((item) => item.status)).toEqual(['posted', 'skipped', 'pending']);
+  });
+
+  it('keeps a text edit from one tab when the other later copies and marks the row', () => {
+    const local = apply(base, { type: 'updateRow', id: 'a', patch: { ad: 'Edited text', rules: 'No links' } });
+    let remote = apply(base, {
+      type: 'recordEvents',
+      id: 'a',
+      events: [{ at: '2024-05-01T10:00:00.000Z', action: 'copied', copySucceeded: true, copyMethod: 'navigator' }],
+    });
+    remote = apply(remote, { type: 'setStatus', id: 'a', status: 'posted', at: '2024-05-01T10:05:00.000Z' });
+
+    const [merged] = rowsOf(mergeSessions(base, local, remote));
+    expect(merged).toMatchObject({ ad: 'Edited text', rules: 'No links', status: 'posted', lastChangedAt: '2024-05-01T10:05:00.000Z' });
+    expect(merged.history.map((entry) => entry.action)).toEqual(['copied', 'posted']);
+    // The other direction gives the same row.
+    expect(rowsOf(mergeSessions(base, remote, local))[0]).toEqual(merged);
+  });
+
+  it('gives a field both tabs changed to the row changed last', () => {
+    const local = apply(base, { type: 'setStatus', id: 'a', status: 'skipped', at: '2024-05-01T10:00:00.000Z' });
+    const remote = apply(base, { type: 'setStatus', id: 'a', status: 'posted', at: '2024-05-01T10:05:00.000Z' });
+    const [merged] = rowsOf(mergeSessions(base, local, remote));
+    expect(merged.status).toBe('posted');
+    expect(merged.history.map((entry) => entry.action)).toEqual(['skipped', 'posted']);
+  });
+
+  it('keeps local text on a tie', () => {
+    const local = apply(base, { type: 'updateRow', id: 'a', patch: { ad: 'Mine' } });
+    const remote = apply(base, { type: 'updateRow', id: 'a', patch: { ad: 'Theirs' } });
+    expect(rowsOf(mergeSessions(base, local, remote))[0].ad).toBe('Mine');
+  });
+
+  it('drops history entries that one tab undid', () => {
+    const posted = apply(base, { type: 'setStatus', id: 'a', status: 'posted', at: '2024-05-01T10:00:00.000Z' });
+    const undone = apply(posted, { type: 'restore', rows: rowsOf(base), currentId: 'a' });
+    const copied = apply(posted, {
+      type: 'recordEvents',
+      id: 'a',
+      events: [{ at: '2024-05-01T10:01:00.000Z', action: 'opened' }],
+    });
+    const [merged] = rowsOf(mergeSessions(posted, undone, copied));
+    expect(merged.history.map((entry) => entry.action)).toEqual(['opened']);
+  });
+
+  it('applies a deletion in one tab and an addition in the other', () => {
+    const local = apply(base, { type: 'addRow', row: row('d') });
+    const remote = apply(base, { type: 'deleteRows', ids: ['b'] });
+    expect(rowsOf(mergeSessions(base, local, remote)).map((item) => item.id)).toEqual(['a', 'c', 'd']);
+  });
+
+  it('follows a reorder made in the other tab', () => {
+    const remote = apply(base, { type: 'moveRow', id: 'c', targetId: 'a' });
+    expect(rowsOf(mergeSessions(base, base, remote)).map((item) => item.id)).toEqual(rowsOf(remote).map((item) => item.id));
+  });
+});
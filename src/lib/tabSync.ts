@@ -0,0 +1,153 @@
+import { mergeRowFields, sameValue } from './rowMerge';
+import { QueueRow, SessionState, Workspace } from './types';
+
+const SYNC_CHANNEL_NAME = 'paste-happy-sync';
+/** Fallback transport for browsers without BroadcastChannel: other tabs see writes to this key as `storage` events. */
+const SYNC_STORAGE_KEY = 'paste-happy-sync-message';
+
+export type SyncMessage =
+  /** Sent by a tab once its session has loaded; every other tab answers with `here`. */
+  | { type: 'hello'; from: string }
+  | { type: 'here'; from: string; session: SessionState; leader: boolean }
+  | { type: 'session'; from: string; session: SessionState }
+  /** The sender is now the tab the user is working in. */
+  | { type: 'claim'; from: string }
+  | { type: 'bye'; from: string };
+
+export interface SyncChannel {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+export function openSyncChannel(onMessage: (message: SyncMessage) => void): SyncChannel | null {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(SYNC_CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => onMessage(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+  if (typeof localStorage === 'undefined') return null;
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== SYNC_STORAGE_KEY || !event.newValue) return;
+    try {
+      onMessage((JSON.parse(event.newValue) as { message: SyncMessage }).message);
+    } catch (error) {
+      console.warn('Ignoring malformed sync message', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: (message) => {
+      try {
+        // The timestamp makes repeated identical messages still count as a change.
+        localStorage.setItem(SYNC_STORAGE_KEY, JSON.stringify({ message, sentAt: Date.now() }));
+      } catch (error) {
+        console.warn('Failed to send sync message', error);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+}
+
+/**
+ * Three-way merge of another tab's session into this one. `base` is the last session both
+ * tabs agreed on, which tells an edit from a stale copy and a deletion from an addition.
+ * Rows present on both sides are merged field by field, so an edit in one tab survives a
+ * status change or Copy & Open in the other; see `mergeRow`. The current row, filter,
+ * search and active workspace stay per tab. Returns `local` itself when nothing changes,
+ * so a merge never causes a needless render or save.
+ */
+export function mergeSessions(base: SessionState, local: SessionState, remote: SessionState): SessionState {
+  const workspaces = mergeById(base.workspaces, local.workspaces, remote.workspaces, mergeWorkspace);
+  if (workspaces === local.workspaces) return local;
+  if (!workspaces.length) return remote;
+  const activeWorkspaceId = workspaces.some((workspace) => workspace.id === local.activeWorkspaceId)
+    ? local.activeWorkspaceId
+    : (workspaces.find((workspace) => !workspace.archived) ?? workspaces[0]).id;
+  return { workspaces, activeWorkspaceId };
+}
+
+function mergeWorkspace(base: Workspace | undefined, local: Workspace, remote: Workspace): Workspace {
+  const rows = mergeById(base?.rows ?? [], local.rows, remote.rows, mergeRow);
+  const localTemplates = local.templates ?? [];
+  const templates = mergeById(base?.templates ?? [], localTemplates, remote.templates ?? [], preferChanged);
+  const name = base && local.name === base.name ? remote.name : local.name;
+  const archived = base && local.archived === base.archived ? remote.archived : local.archived;
+  if (rows === local.rows && templates === localTemplates && name === local.name && archived === local.archived) {
+    return local;
+  }
+  const currentId =
+    local.currentId && rows.some((row) => row.id === local.currentId)
+      ? local.currentId
+      : rows.find((row) => row.status === 'pending')?.id ?? rows[0]?.id ?? null;
+  return { ...local, name, archived, rows, templates, currentId };
+}
+
+/**
+ * Each field takes the side that changed it since `base`; see `mergeRowFields`. A field both
+ * sides changed goes to the row changed last, by `lastChangedAt` or its newest history entry,
+ * and to `local` on a tie.
+ */
+function mergeRow(base: QueueRow | undefined, local: QueueRow, remote: QueueRow): QueueRow {
+  if (sameValue(local, remote)) return local;
+  const remoteWins = rowStamp(remote) > rowStamp(local);
+  if (!base) return remoteWins ? remote : local;
+  return mergeRowFields(base, local, remote, remoteWins);
+}
+
+/** When the row last changed: its status change or its newest history entry, whichever is later. */
+function rowStamp(row: QueueRow): number {
+  const changed = row.lastChangedAt ? Date.parse(row.lastChangedAt) : 0;
+  const last = row.history.length ? Date.parse(row.history[row.history.length - 1].at) : 0;
+  return Math.max(Number.isNaN(changed) ? 0 : changed, Number.isNaN(last) ? 0 : last);
+}
+
+function preferChanged<T>(base: T | undefined, local: T, remote: T): T {
+  if (sameValue(local, remote)) return local;
+  return base !== undefined && sameValue(local, base) ? remote : local;
+}
+
+/**
+ * Merges two lists of items with IDs against their common `base`. An item missing on one
+ * side was deleted there if the other side still has it unchanged from `base`, and added
+ * on the other side if `base` never had it. The order follows whichever side reordered.
+ */
+function mergeById<T extends { id: string }>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  mergeItem: (base: T | undefined, local: T, remote: T) => T
+): T[] {
+  const baseById = new Map(base.map((item) => [item.id, item]));
+  const localById = new Map(local.map((item) => [item.id, item]));
+  const remoteById = new Map(remote.map((item) => [item.id, item]));
+  const [first, second] = sameOrder(local, base) ? [remote, local] : [local, remote];
+  const ids = first.map((item) => item.id);
+  const seen = new Set(ids);
+  second.forEach((item) => {
+    if (!seen.has(item.id)) ids.push(item.id);
+  });
+
+  const merged: T[] = [];
+  ids.forEach((id) => {
+    const localItem = localById.get(id);
+    const remoteItem = remoteById.get(id);
+    const baseItem = baseById.get(id);
+    if (localItem && remoteItem) {
+      merged.push(mergeItem(baseItem, localItem, remoteItem));
+    } else if (localItem) {
+      if (!baseItem || !sameValue(localItem, baseItem)) merged.push(localItem);
+    } else if (remoteItem) {
+      if (!baseItem || !sameValue(remoteItem, baseItem)) merged.push(remoteItem);
+    }
+  });
+
+  const unchanged = merged.length === local.length && merged.every((item, index) => item === local[index]);
+  return unchanged ? local : merged;
+}
+
+function sameOrder(a: { id: string }[], b: { id: string }[]): boolean {
+  return a.length === b.length && a.every((item, index) => item.id === b[index].id);
+}
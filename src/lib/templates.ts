@@ -0,0 +1,72 @@
+import { createId } from './id';
+import { PostTemplate, QueueRow } from './types';
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_.-]+)\s*\}\}/g;
+
+/** Variables every row provides without extra fields. */
+export const BUILT_IN_VARIABLES = ['group_name', 'group_url'] as const;
+
+export interface RenderedPost {
+  text: string;
+  /** Variables used by the template that the row has no value for. */
+  missing: string[];
+  template: PostTemplate | null;
+}
+
+export function createTemplate(name: string, body = ''): PostTemplate {
+  return { id: createId(), name: name.trim() || 'Untitled template', body };
+}
+
+/** Field names are matched case-insensitively with spaces and dashes treated as underscores. */
+export function normalizeVariableName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+export function templateVariables(body: string): string[] {
+  const names = new Set<string>();
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    names.add(normalizeVariableName(match[1]));
+  }
+  return [...names];
+}
+
+/** Variables the template needs beyond the built-ins, i.e. the per-row fields to fill in. */
+export function customVariables(body: string): string[] {
+  return templateVariables(body).filter((name) => !(BUILT_IN_VARIABLES as readonly string[]).includes(name));
+}
+
+export function rowVariables(row: Pick<QueueRow, 'name' | 'url' | 'fields'>): Record<string, string> {
+  const values: Record<string, string> = {};
+  Object.entries(row.fields ?? {}).forEach(([key, value]) => {
+    values[normalizeVariableName(key)] = value;
+  });
+  values.group_name = row.name;
+  values.group_url = row.url;
+  return values;
+}
+
+export function renderTemplate(body: string, values: Record<string, string>): Omit<RenderedPost, 'template'> {
+  const missing = new Set<string>();
+  const text = body.replace(VARIABLE_PATTERN, (placeholder, raw: string) => {
+    const value = values[normalizeVariableName(raw)];
+    if (value === undefined || !value.trim()) {
+      missing.add(normalizeVariableName(raw));
+      return placeholder;
+    }
+    return value;
+  });
+  return { text, missing: [...missing] };
+}
+
+/** The text Copy & Open should use: the rendered template when the row has one, otherwise its own post text. */
+export function renderRowPost(row: QueueRow, templates: PostTemplate[] | undefined): RenderedPost {
+  const template = row.templateId ? templates?.find((item) => item.id === row.templateId) ?? null : null;
+  if (!template) return { text: row.ad, missing: [], template: null };
+  return { ...renderTemplate(template.body, rowVariables(row)), template };
+}
+
+export function findTemplateByName(templates: PostTemplate[] | undefined, name: string): PostTemplate | undefined {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return templates?.find((template) => template.id === name.trim() || template.name.trim().toLowerCase() === wanted);
+}
@@ -1,7 +1,69 @@
 export type RowStatusKind = 'pending' | 'posted' | 'skipped' | 'failed';
 
+export type GroupMembership = 'unknown' | 'member' | 'requested' | 'not-member';
+
+/** Status changes, plus `copied` and `opened` for each Copy & Open and `checked` for each "Did it post?" answer. */
+export type RowHistoryAction = RowStatusKind | 'copied' | 'opened' | 'checked';
+
+/** Answers to the "Did it post?" prompt shown on returning to the tab after Copy & Open. */
+export type PostCheckAnswer = 'posted' | 'failed' | 'skipped' | 'not-yet';
+
+export type CopyMethod = 'navigator' | 'fallback';
+
 export interface RowHistoryEntry {
   at: string;
-  action: RowStatusKind;
+  action: RowHistoryAction;
   note?: string;
+  /** Set on `copied` entries. */
+  copyMethod?: CopyMethod;
+  copySucceeded?: boolean;
+  /** Set on `checked` entries. */
+  answer?: PostCheckAnswer;
+}
+
+/** `follow-up` shows rows that were opened but never marked. */
+export type RowFilter = 'all' | RowStatusKind | 'follow-up';
+
+export interface QueueRow {
+  id: string;
+  name: string;
+  url: string;
+  ad: string;
+  status: RowStatusKind;
+  history: RowHistoryEntry[];
+  lastChangedAt?: string;
+  /** Free-text posting rules for the group. */
+  rules?: string;
+  tags?: string[];
+  membership?: GroupMembership;
+  /** When set, the post text is rendered from this template at copy time instead of `ad`. */
+  templateId?: string;
+  /** Per-row values for template variables, keyed by variable name. */
+  fields?: Record<string, string>;
+}
+
+export interface PostTemplate {
+  id: string;
+  name: string;
+  body: string;
+}
+
+export interface AppState {
+  rows: QueueRow[];
+  currentId: string | null;
+  filter: RowFilter;
+  search: string;
+  templates?: PostTemplate[];
+}
+
+export interface Workspace extends AppState {
+  id: string;
+  name: string;
+  archived: boolean;
+  createdAt: string;
+}
+
+export interface SessionState {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
 }
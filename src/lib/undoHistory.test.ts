@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { queueReducer } from './queue';
+import { AppState, QueueRow } from './types';
+import { applyHistoryEntry, createHistoryEntry, HistoryEntry, UndoSnapshot } from './undoHistory';
+
+const context = { cooldownDays: 0 };
+
+function row(id: string, patch: Partial<QueueRow> = {}): QueueRow {
+  return { id, name: `Group ${id}`, url: `https://www.facebook.com/groups/${id}/`, ad: `Post ${id}`, status: 'pending', history: [], ...patch };
+}
+
+const start: AppState = { rows: [row('a'), row('b')], currentId: 'a', filter: 'all', search: '' };
+
+/** Applies an action and returns the new state with the undo entry it would record. */
+function recorded(state: AppState, action: Parameters<typeof queueReducer>[1]): [AppState, HistoryEntry] {
+  const next = queueReducer(state, action, context);
+  const entry = createHistoryEntry('Change', state as UndoSnapshot, next as UndoSnapshot);
+  if (!entry) throw new Error('nothing recorded');
+  return [next, entry];
+}
+
+describe('applyHistoryEntry', () => {
+  it('undoes and redoes a change', () => {
+    const [posted, entry] = recorded(start, { type: 'setStatus', id: 'a', status: 'posted', at: '2024-05-01T10:00:00.000Z' });
+    const undone = applyHistoryEntry(posted, entry, 'undo');
+    expect(undone.rows).toEqual(start.rows);
+    expect(undone.currentId).toBe('a');
+    expect(applyHistoryEntry(undone, entry, 'redo').rows).toEqual(posted.rows);
+  });
+
+  it('keeps Copy & Open events recorded on the row after the undone change', () => {
+    const [posted, entry] = recorded(start, { type: 'setStatus', id: 'a', status: 'posted', at: '2024-05-01T10:00:00.000Z' });
+    const copied = queueReducer(
+      posted,
+      { type: 'recordEvents', id: 'a', events: [{ at: '2024-05-01T10:05:00.000Z', action: 'copied', copySucceeded: true, copyMethod: 'navigator' }] },
+      context
+    );
+    const [undone] = applyHistoryEntry(copied, entry, 'undo').rows;
+    expect(undone.status).toBe('pending');
+    expect(undone.history.map((item) => item.action)).toEqual(['copied']);
+  });
+
+  it('keeps fields changed elsewhere and puts back only the ones the entry changed', () => {
+    const [edited, entry] = recorded(start, { type: 'updateRow', id: 'a', patch: { ad: 'Edited' } });
+    const synced = { ...edited, rows: edited.rows.map((item) => (item.id === 'a' ? { ...item, rules: 'No links', tags: ['weekly'] } : item)) };
+    const [undone] = applyHistoryEntry(synced, entry, 'undo').rows;
+    expect(undone).toMatchObject({ ad: 'Post a', rules: 'No links', tags: ['weekly'] });
+    expect(applyHistoryEntry(synced, entry, 'undo').rows[1]).toBe(synced.rows[1]);
+  });
+
+  it('removes added rows and restores deleted ones', () => {
+    const [added, addEntry] = recorded(start, { type: 'addRow', row: row('c') });
+    expect(applyHistoryEntry(added, addEntry, 'undo').rows.map((item) => item.id)).toEqual(['a', 'b']);
+    const [deleted, deleteEntry] = recorded(start, { type: 'deleteRows', ids: ['a'] });
+    expect(applyHistoryEntry(deleted, deleteEntry, 'undo').rows).toEqual(start.rows);
+  });
+});
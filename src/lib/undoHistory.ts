@@ -0,0 +1,202 @@
+import { createId } from './id';
+import { mergeRowFields } from './rowMerge';
+import { AppState, PostTemplate, QueueRow } from './types';
+
+/** Entries kept per workspace; the oldest are dropped first. */
+export const HISTORY_LIMIT = 50;
+
+const HISTORY_STORAGE_KEY = 'paste-happy-undo-history';
+
+interface RowChange {
+  id: string;
+  before: QueueRow | null;
+  after: QueueRow | null;
+}
+
+/**
+ * One undoable transition of a workspace. Only rows whose object identity changed are
+ * stored, plus the row order when it changed, so large queues stay cheap to record.
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: string;
+  rows: RowChange[];
+  order?: { before: string[]; after: string[] };
+  currentId: { before: string | null; after: string | null };
+  templates?: { before: PostTemplate[] | undefined; after: PostTemplate[] | undefined };
+  /** Pacing log timestamps recorded by this change, removed again on undo. */
+  posted?: string[];
+  /** Consecutive entries with the same key (typing into one field) merge into one. */
+  coalesceKey?: string;
+}
+
+export interface HistoryStack {
+  past: HistoryEntry[];
+  /** Undone entries; the last one is the next to redo. */
+  future: HistoryEntry[];
+}
+
+export type UndoSnapshot = Pick<AppState, 'rows' | 'currentId' | 'templates'>;
+
+export function createHistoryStack(): HistoryStack {
+  return { past: [], future: [] };
+}
+
+/** Returns null when nothing undoable changed between the two states. */
+export function createHistoryEntry(
+  label: string,
+  before: UndoSnapshot,
+  after: UndoSnapshot,
+  options: Pick<HistoryEntry, 'posted' | 'coalesceKey'> = {}
+): HistoryEntry | null {
+  const previous = new Map(before.rows.map((row) => [row.id, row]));
+  const next = new Map(after.rows.map((row) => [row.id, row]));
+  const rows: RowChange[] = [];
+  previous.forEach((row, id) => {
+    const updated = next.get(id) ?? null;
+    if (updated !== row) rows.push({ id, before: row, after: updated });
+  });
+  next.forEach((row, id) => {
+    if (!previous.has(id)) rows.push({ id, before: null, after: row });
+  });
+
+  const beforeOrder = before.rows.map((row) => row.id);
+  const afterOrder = after.rows.map((row) => row.id);
+  const orderChanged = beforeOrder.length !== afterOrder.length || beforeOrder.some((id, index) => afterOrder[index] !== id);
+  const templatesChanged = before.templates !== after.templates;
+  if (!rows.length && !orderChanged && !templatesChanged) return null;
+
+  return {
+    id: createId(),
+    label,
+    at: new Date().toISOString(),
+    rows,
+    order: orderChanged ? { before: beforeOrder, after: afterOrder } : undefined,
+    currentId: { before: before.currentId, after: after.currentId },
+    templates: templatesChanged ? { before: before.templates, after: after.templates } : undefined,
+    posted: options.posted?.length ? options.posted : undefined,
+    coalesceKey: options.coalesceKey,
+  };
+}
+
+/**
+ * Replays an entry backwards (`undo`) or forwards (`redo`) on top of the current state. A row
+ * that still exists only has the fields this entry changed put back, so later changes that
+ * were not recorded (Copy & Open events, edits synced from another tab) survive.
+ */
+export function applyHistoryEntry<T extends UndoSnapshot>(state: T, entry: HistoryEntry, direction: 'undo' | 'redo'): T {
+  const side = direction === 'undo' ? 'before' : 'after';
+  const otherSide = direction === 'undo' ? 'after' : 'before';
+  const byId = new Map(state.rows.map((row) => [row.id, row]));
+  entry.rows.forEach((change) => {
+    const target = change[side];
+    const from = change[otherSide];
+    const current = byId.get(change.id);
+    if (!target) byId.delete(change.id);
+    else byId.set(change.id, from && current ? mergeRowFields(from, current, target, true) : target);
+  });
+
+  const ordered: QueueRow[] = [];
+  const placed = new Set<string>();
+  const place = (id: string) => {
+    const row = byId.get(id);
+    if (!row || placed.has(id)) return;
+    placed.add(id);
+    ordered.push(row);
+  };
+  entry.order?.[side].forEach(place);
+  state.rows.forEach((row) => place(row.id));
+  byId.forEach((_, id) => place(id));
+
+  const currentId = entry.currentId[side];
+  return {
+    ...state,
+    rows: ordered,
+    currentId: currentId && byId.has(currentId) ? currentId : state.currentId && byId.has(state.currentId) ? state.currentId : null,
+    templates: entry.templates ? entry.templates[side] : state.templates,
+  };
+}
+
+const COALESCE_WINDOW_MS = 2000;
+
+export function pushHistoryEntry(stack: HistoryStack, entry: HistoryEntry): HistoryStack {
+  const last = stack.past[stack.past.length - 1];
+  if (
+    last &&
+    entry.coalesceKey &&
+    last.coalesceKey === entry.coalesceKey &&
+    Date.parse(entry.at) - Date.parse(last.at) < COALESCE_WINDOW_MS
+  ) {
+    return { past: [...stack.past.slice(0, -1), mergeEntries(last, entry)], future: [] };
+  }
+  return { past: [...stack.past, entry].slice(-HISTORY_LIMIT), future: [] };
+}
+
+function mergeEntries(older: HistoryEntry, newer: HistoryEntry): HistoryEntry {
+  const rows = older.rows.map((change) => {
+    const update = newer.rows.find((item) => item.id === change.id);
+    return update ? { ...change, after: update.after } : change;
+  });
+  newer.rows.forEach((change) => {
+    if (!older.rows.some((item) => item.id === change.id)) rows.push(change);
+  });
+  const order =
+    older.order || newer.order
+      ? { before: older.order?.before ?? newer.order?.before ?? [], after: newer.order?.after ?? older.order?.after ?? [] }
+      : undefined;
+  const posted = [...(older.posted ?? []), ...(newer.posted ?? [])];
+  return {
+    ...newer,
+    id: older.id,
+    rows,
+    order,
+    currentId: { before: older.currentId.before, after: newer.currentId.after },
+    templates:
+      older.templates || newer.templates
+        ? { before: (older.templates ?? newer.templates)?.before, after: (newer.templates ?? older.templates)?.after }
+        : undefined,
+    posted: posted.length ? posted : undefined,
+  };
+}
+
+/** History lives in sessionStorage: it survives reloads but not closing the tab. */
+export function loadHistory(): Record<string, HistoryStack> {
+  if (typeof sessionStorage === 'undefined') return {};
+  try {
+    const raw = sessionStorage.getItem(HISTORY_STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Record<string, HistoryStack>) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.warn('Failed to load undo history', error);
+    return {};
+  }
+}
+
+/** Drops the oldest entries until the history fits in sessionStorage. */
+export function saveHistory(history: Record<string, HistoryStack>): void {
+  if (typeof sessionStorage === 'undefined') return;
+  let current = history;
+  for (let attempt = 0; attempt <= HISTORY_LIMIT; attempt += 1) {
+    try {
+      sessionStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(current));
+      return;
+    } catch (error) {
+      const trimmed = trimOldest(current);
+      if (trimmed === current) break;
+      current = trimmed;
+    }
+  }
+  console.warn('Undo history is too large to keep for this session.');
+  sessionStorage.removeItem(HISTORY_STORAGE_KEY);
+}
+
+function trimOldest(history: Record<string, HistoryStack>): Record<string, HistoryStack> {
+  let changed = false;
+  const next: Record<string, HistoryStack> = {};
+  Object.entries(history).forEach(([id, stack]) => {
+    if (stack.past.length || stack.future.length) changed = true;
+    next[id] = { past: stack.past.slice(Math.ceil(stack.past.length / 4)), future: stack.future.slice(1) };
+  });
+  return changed ? next : history;
+}
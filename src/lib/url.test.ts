@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeGroupUrl, canonicalUrl, isValidHttpUrl, normalizeGroupUrl } from './url';
+
+const GROUP = 'https://www.facebook.com/groups/355271864659430/';
+
+describe('canonicalizeGroupUrl', () => {
+  it.each([
+    ['https://www.facebook.com/groups/355271864659430/', GROUP],
+    ['https://www.facebook.com/groups/355271864659430', GROUP],
+    ['http://facebook.com/groups/355271864659430', GROUP],
+    ['www.facebook.com/groups/355271864659430', GROUP],
+    ['facebook.com/groups/355271864659430/', GROUP],
+    ['  https://www.facebook.com/groups/355271864659430/  ', GROUP],
+    ['https://m.facebook.com/groups/355271864659430', GROUP],
+    ['https://web.facebook.com/groups/355271864659430/', GROUP],
+    ['https://mbasic.facebook.com/groups/355271864659430/?refid=18', GROUP],
+    ['https://touch.facebook.com/groups/355271864659430', GROUP],
+    ['https://www.facebook.com/groups/355271864659430/?ref=share', GROUP],
+    ['https://www.facebook.com/groups/355271864659430/?mibextid=HsNCOg&ref=share_group_link', GROUP],
+    ['https://www.facebook.com/groups/355271864659430#top', GROUP],
+    ['https://www.facebook.com/groups/355271864659430/posts/1234567890/', GROUP],
+    ['https://www.facebook.com/groups/355271864659430/permalink/1234567890/?comment_id=5', GROUP],
+    ['https://m.facebook.com/groups/355271864659430/members/', GROUP],
+    ['https://www.facebook.com/groups/355271864659430//', GROUP],
+    ['https://www.facebook.com/groups/folsomcommunity/', 'https://www.facebook.com/groups/folsomcommunity/'],
+    ['https://m.facebook.com/groups/FolsomCommunity?ref=bookmarks', 'https://www.facebook.com/groups/FolsomCommunity/'],
+  ])('%s → %s', (input, expected) => {
+    expect(canonicalizeGroupUrl(input)).toBe(expected);
+  });
+
+  it.each([
+    '',
+    'not a url',
+    'https://www.facebook.com/',
+    'https://www.facebook.com/groups/',
+    'https://www.facebook.com/groups/feed/',
+    'https://www.facebook.com/groups/discover',
+    'https://www.facebook.com/groups/joins/?nav_source=tab',
+    'https://www.facebook.com/somepage',
+    'https://www.notfacebook.com/groups/355271864659430/',
+    'https://facebook.com.evil.example/groups/355271864659430/',
+    'https://example.com/groups/355271864659430/',
+  ])('rejects %s', (input) => {
+    expect(canonicalizeGroupUrl(input)).toBeNull();
+  });
+});
+
+describe('normalizeGroupUrl', () => {
+  it('canonicalizes group links and only trims anything else', () => {
+    expect(normalizeGroupUrl('https://m.facebook.com/groups/355271864659430?ref=share')).toBe(GROUP);
+    expect(normalizeGroupUrl('  https://example.com/Path?q=1  ')).toBe('https://example.com/Path?q=1');
+  });
+});
+
+describe('canonicalUrl', () => {
+  it('gives every variant of a group the same key', () => {
+    const variants = [
+      GROUP,
+      'https://m.facebook.com/groups/355271864659430',
+      'https://web.facebook.com/groups/355271864659430/?ref=share',
+      'mbasic.facebook.com/groups/355271864659430/posts/987/',
+    ];
+    expect(new Set(variants.map(canonicalUrl))).toEqual(new Set(['facebook.com/groups/355271864659430']));
+  });
+
+  it('ignores the case of group slugs', () => {
+    expect(canonicalUrl('https://www.facebook.com/groups/FolsomCommunity/')).toBe(canonicalUrl('m.facebook.com/groups/folsomcommunity'));
+  });
+
+  it.each([
+    ['https://www.facebook.com/groups/123/', 'https://www.facebook.com/groups/1234/'],
+    ['https://www.facebook.com/groups/123/', 'https://www.facebook.com/groups/12/'],
+    ['https://www.facebook.com/groups/folsom/', 'https://www.facebook.com/groups/folsom-community/'],
+    ['https://www.facebook.com/groups/123/', 'https://www.facebook.com/123/'],
+    ['https://www.facebook.com/groups/123/posts/456/', 'https://www.facebook.com/groups/456/'],
+    ['https://www.facebook.com/groups/123/', 'https://example.com/groups/123/'],
+    ['https://example.com/a', 'https://example.com/b'],
+    ['https://example.com/a', 'https://example.org/a'],
+    ['https://www.facebook.com/group.php?gid=111', 'https://www.facebook.com/group.php?gid=222'],
+    ['https://www.facebook.com/profile.php?id=111', 'https://www.facebook.com/profile.php?id=222'],
+    ['https://m.facebook.com/profile.php?id=111', 'https://www.facebook.com/group.php?gid=111'],
+  ])('keeps %s and %s apart', (a, b) => {
+    expect(canonicalUrl(a)).not.toBe(canonicalUrl(b));
+  });
+
+  it.each([
+    ['https://www.facebook.com/group.php?gid=111', 'facebook.com/group.php?gid=111'],
+    ['https://m.facebook.com/group.php?gid=111&ref=bookmarks', 'facebook.com/group.php?gid=111'],
+    ['facebook.com/group.php?fbclid=abc&gid=111', 'facebook.com/group.php?gid=111'],
+    ['https://www.facebook.com/profile.php?id=100012345', 'facebook.com/profile.php?id=100012345'],
+    ['https://m.facebook.com/profile.php?id=100012345&mibextid=ZbWKwL', 'facebook.com/profile.php?id=100012345'],
+    ['https://www.facebook.com/profile.php?sk=about&id=100012345', 'facebook.com/profile.php?id=100012345&sk=about'],
+  ])('keeps identifying query parameters: %s → %s', (input, expected) => {
+    expect(canonicalUrl(input)).toBe(expected);
+  });
+
+  it('strips scheme, www./m. prefixes, tracking parameters, fragment and trailing slash from other URLs', () => {
+    expect(canonicalUrl('https://www.Example.com/Path/?utm_source=x&utm_medium=y&fbclid=z#frag')).toBe('example.com/path');
+    expect(canonicalUrl('https://www.Example.com/Path/?page=2&utm_source=x')).toBe('example.com/path?page=2');
+    expect(canonicalUrl('http://m.example.com/path')).toBe('example.com/path');
+    expect(canonicalUrl('  Some Group Name ')).toBe('some group name');
+    expect(canonicalUrl('   ')).toBe('');
+  });
+});
+
+describe('isValidHttpUrl', () => {
+  it.each([
+    ['https://www.facebook.com/groups/1/', true],
+    ['http://example.com', true],
+    ['ftp://example.com', false],
+    ['javascript:alert(1)', false],
+    ['www.facebook.com/groups/1/', false],
+    ['', false],
+  ])('%s → %s', (input, expected) => {
+    expect(isValidHttpUrl(input)).toBe(expected);
+  });
+});
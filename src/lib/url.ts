@@ -0,0 +1,84 @@
+export function isValidHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch (error) {
+    return false;
+  }
+}
+
+/** Paths under /groups/ that are Facebook pages rather than a group. Kept in sync with the scanner userscript. */
+const NON_GROUP_SLUGS = new Set([
+  'feed',
+  'discover',
+  'joins',
+  'create',
+  'browse',
+  'notifications',
+  'categories',
+  'learn',
+  'for_sale',
+  'sell',
+  'membership_approval',
+  'your_groups',
+  'left_nav',
+]);
+
+/**
+ * `https://www.facebook.com/groups/<id or slug>/` for any link into a Facebook group
+ * (mobile and `mbasic.` hosts, missing scheme, post or member sub-pages, query strings),
+ * or null when the value is not a group URL.
+ */
+export function canonicalizeGroupUrl(value: string): string | null {
+  const url = parseLooseUrl(value);
+  if (!url || !/(^|\.)facebook\.com$/i.test(url.hostname)) return null;
+  const segments = url.pathname.split('/').filter(Boolean);
+  const groupsIndex = segments.findIndex((part) => part.toLowerCase() === 'groups');
+  const slug = groupsIndex === -1 ? undefined : segments[groupsIndex + 1];
+  if (!slug || NON_GROUP_SLUGS.has(slug.toLowerCase())) return null;
+  return `https://www.facebook.com/groups/${slug}/`;
+}
+
+/** Group URLs in canonical form; anything else unchanged apart from surrounding whitespace. */
+export function normalizeGroupUrl(value: string): string {
+  return canonicalizeGroupUrl(value) ?? value.trim();
+}
+
+/** Query parameters that only track where a click came from; everything else can identify the page. */
+const TRACKING_PARAMS = new Set(['fbclid', 'gclid', 'mibextid', 'ref', 'refid', 'ref_src', 'ref_url', 'rdid', 'share_url', '__cft__', '__tn__']);
+
+function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return key.startsWith('utm_') || TRACKING_PARAMS.has(key);
+}
+
+/**
+ * Comparison key for URLs: Facebook group links collapse to their group, other URLs lose the
+ * scheme, `www.`/`m.` prefix, tracking parameters, fragment and trailing slash. The remaining query
+ * is kept (sorted), so `group.php?gid=1` and `?gid=2` stay apart. Non-URLs are only trimmed and lower-cased.
+ */
+export function canonicalUrl(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  const group = canonicalizeGroupUrl(trimmed);
+  if (group) return group.replace(/^https:\/\/www\./, '').replace(/\/$/, '').toLowerCase();
+  const url = parseLooseUrl(trimmed);
+  if (!url) return trimmed.toLowerCase();
+  const host = url.hostname.toLowerCase().replace(/^(?:www|m|mobile|mbasic)\./, '');
+  const params = [...url.searchParams]
+    .filter(([name]) => !isTrackingParam(name))
+    .map(([name, param]) => `${encodeURIComponent(name.toLowerCase())}=${encodeURIComponent(param)}`)
+    .sort();
+  const path = `${host}${url.pathname.replace(/\/+$/, '')}`.toLowerCase();
+  return params.length ? `${path}?${params.join('&')}` : path;
+}
+
+function parseLooseUrl(value: string): URL | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  try {
+    return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { Command, isEditableTarget, matchesShortcut } from './commands';
+
+/** Runs the first enabled command whose shortcut matches a window keydown. */
+export function useKeyboardShortcuts(commands: Command[], enabled: boolean): void {
+  const latest = useRef(commands);
+  latest.current = commands;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+      const editing = isEditableTarget(event.target);
+      const command = latest.current.find(
+        (item) =>
+          item.shortcut &&
+          !item.disabled &&
+          (!editing || (item.shortcut.startsWith('mod+') && !item.yieldToInputs)) &&
+          matchesShortcut(event, item.shortcut)
+      );
+      if (!command) return;
+      event.preventDefault();
+      command.run();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
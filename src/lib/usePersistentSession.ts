@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createLocalSessionStore, createSessionStore, describeStorageError, SessionStore } from './sessionStore';
+import { importControlCenterProgress } from './storage';
+import { SessionState } from './types';
+
+const SAVE_DEBOUNCE_MS = 400;
+
+export interface SessionPersistence {
+  /** False until the stored session has been read; nothing is written before then. */
+  hydrated: boolean;
+  error: string | null;
+  /** Writes the session now; also used to save before reloading into a new version. */
+  retry: () => Promise<void>;
+}
+
+/**
+ * Loads the session from the preferred store once, then writes it back a short
+ * while after each change and whenever the page is hidden.
+ */
+export function usePersistentSession(session: SessionState, onLoad: (session: SessionState) => void): SessionPersistence {
+  const storeRef = useRef<SessionStore | null>(null);
+  const latestSession = useRef(session);
+  const timer = useRef<number | null>(null);
+  const [hydrated, setHydrated] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  latestSession.current = session;
+
+  useEffect(() => {
+    let cancelled = false;
+    const hydrate = async () => {
+      let store = createSessionStore();
+      let loaded: SessionState | null = null;
+      try {
+        loaded = await store.load();
+      } catch (loadError) {
+        console.warn('Falling back to localStorage', loadError);
+        store = createLocalSessionStore();
+        loaded = await store.load();
+      }
+      if (cancelled) return;
+      storeRef.current = store;
+      onLoad(importControlCenterProgress(loaded ?? latestSession.current));
+      setHydrated(true);
+    };
+    hydrate().catch((loadError) => {
+      // Neither store could be read: start from the default session so the app stays usable.
+      console.warn('Failed to load session', loadError);
+      if (cancelled) return;
+      storeRef.current = createLocalSessionStore();
+      setError(describeStorageError(loadError));
+      setHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Hydration runs once; `onLoad` is expected to be a stable state setter.
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (timer.current !== null) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+    const store = storeRef.current;
+    if (!store) return;
+    try {
+      await store.save(latestSession.current);
+      setError(null);
+    } catch (saveError) {
+      console.warn('Failed to save session', saveError);
+      setError(describeStorageError(saveError));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    if (timer.current !== null) clearTimeout(timer.current);
+    timer.current = window.setTimeout(flush, SAVE_DEBOUNCE_MS);
+  }, [flush, hydrated, session]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    const handleHide = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleHide);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleHide);
+    };
+  }, [flush, hydrated]);
+
+  return { hydrated, error, retry: flush };
+}
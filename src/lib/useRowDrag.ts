@@ -0,0 +1,59 @@
+import React, { useCallback, useRef, useState } from 'react';
+
+const EDGE_SCROLL_PX = 80;
+const EDGE_SCROLL_STEP = 12;
+
+export interface RowDragState {
+  id: string;
+  overId: string | null;
+}
+
+/**
+ * Pointer-based drag reordering so the same handle works with a mouse and on touch screens,
+ * where HTML5 drag and drop is not available. Arrow keys on a focused handle move one step.
+ */
+export function useRowDrag(orderedIds: string[], onMove: (id: string, targetId: string) => void) {
+  const [drag, setDragState] = useState<RowDragState | null>(null);
+  // Mirrors `drag` so pointer handlers see the latest target without waiting for a render.
+  const dragRef = useRef<RowDragState | null>(null);
+
+  const setDrag = useCallback((next: RowDragState | null) => {
+    dragRef.current = next;
+    setDragState(next);
+  }, []);
+
+  const handleProps = useCallback(
+    (id: string): React.HTMLAttributes<HTMLButtonElement> => ({
+      onPointerDown: (event) => {
+        if (event.button !== 0) return;
+        event.preventDefault();
+        event.currentTarget.setPointerCapture(event.pointerId);
+        setDrag({ id, overId: null });
+      },
+      onPointerMove: (event) => {
+        if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+        if (event.clientY < EDGE_SCROLL_PX) window.scrollBy(0, -EDGE_SCROLL_STEP);
+        else if (event.clientY > window.innerHeight - EDGE_SCROLL_PX) window.scrollBy(0, EDGE_SCROLL_STEP);
+        const target = document.elementFromPoint(event.clientX, event.clientY)?.closest<HTMLElement>('[data-row-id]');
+        const overId = target?.dataset.rowId ?? null;
+        if (dragRef.current?.id === id && dragRef.current.overId !== overId) setDrag({ id, overId });
+      },
+      onPointerUp: () => {
+        const current = dragRef.current;
+        setDrag(null);
+        if (current?.id === id && current.overId && current.overId !== id) onMove(id, current.overId);
+      },
+      onPointerCancel: () => setDrag(null),
+      onKeyDown: (event) => {
+        if (event.key !== 'ArrowUp' && event.key !== 'ArrowDown') return;
+        event.preventDefault();
+        const index = orderedIds.indexOf(id);
+        const targetId = orderedIds[index + (event.key === 'ArrowUp' ? -1 : 1)];
+        if (index !== -1 && targetId) onMove(id, targetId);
+      },
+    }),
+    [onMove, orderedIds, setDrag]
+  );
+
+  return { drag, handleProps };
+}
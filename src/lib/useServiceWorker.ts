@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export interface ServiceWorkerUpdate {
+  /** A newer build has been downloaded and is waiting for this page to let it take over. */
+  updateReady: boolean;
+  /** Activates the waiting build and reloads the page into it. */
+  applyUpdate: () => void;
+}
+
+/**
+ * Registers the service worker in production builds, checks for a newer build whenever
+ * the page comes back into view, and reports when one is ready to use.
+ */
+export function useServiceWorker(): ServiceWorkerUpdate {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    let cancelled = false;
+    let registration: ServiceWorkerRegistration | null = null;
+
+    const trackInstalling = (worker: ServiceWorker | null) => {
+      worker?.addEventListener('statechange', () => {
+        // Without a controller this is the very first install, which needs no reload.
+        if (!cancelled && worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+      });
+    };
+
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .then((result) => {
+        if (cancelled) return;
+        registration = result;
+        if (result.waiting && navigator.serviceWorker.controller) setWaiting(result.waiting);
+        trackInstalling(result.installing);
+        result.addEventListener('updatefound', () => trackInstalling(result.installing));
+      })
+      .catch((error) => console.warn('Service worker registration failed', error));
+
+    const checkForUpdate = () => {
+      if (document.visibilityState === 'visible') registration?.update().catch(() => undefined);
+    };
+    document.addEventListener('visibilitychange', checkForUpdate);
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', checkForUpdate);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waiting) return;
+    // Another tab may already have switched to the new build.
+    if (waiting.state === 'activated') {
+      window.location.reload();
+      return;
+    }
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    waiting.postMessage({ type: 'SKIP_WAITING' });
+  }, [waiting]);
+
+  return { updateReady: waiting !== null, applyUpdate };
+}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Notices when the user leaves this tab and comes back. Calling the returned `expect(value)`
+ * arms it, e.g. right after opening a group in a new tab; the next time the page becomes
+ * visible after having been hidden, `onReturn` receives that value. Arming again replaces it.
+ */
+export function useTabReturn<T>(onReturn: (value: T) => void): (value: T) => void {
+  const expected = useRef<{ value: T; left: boolean } | null>(null);
+  const latest = useRef(onReturn);
+  latest.current = onReturn;
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const pending = expected.current;
+      if (!pending) return;
+      if (document.visibilityState === 'hidden') {
+        pending.left = true;
+        return;
+      }
+      if (!pending.left) return;
+      expected.current = null;
+      latest.current(pending.value);
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  return useCallback((value: T) => {
+    expected.current = { value, left: document.visibilityState === 'hidden' };
+  }, []);
+}
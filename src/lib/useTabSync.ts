@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react';
+import { createId } from './id';
+import { mergeSessions, openSyncChannel, SyncChannel, SyncMessage } from './tabSync';
+import { SessionState } from './types';
+
+const SYNC_DEBOUNCE_MS = 200;
+
+export interface TabSyncStatus {
+  /** `leader` is the tab the user last worked in; the others follow its changes. */
+  role: 'leader' | 'follower';
+  /** Other tabs of the app that are open right now. */
+  peers: number;
+}
+
+/**
+ * Keeps the session in step with other open tabs. Each local change is sent to the other
+ * tabs shortly after it happens, and changes from them are merged row by row, so two tabs
+ * no longer overwrite each other's progress when they save.
+ */
+export function useTabSync(
+  session: SessionState,
+  onMerge: (session: SessionState) => void,
+  hydrated: boolean
+): TabSyncStatus {
+  const [tabId] = useState(createId);
+  const [leaderId, setLeaderId] = useState<string | null>(null);
+  const [peers, setPeers] = useState<Set<string>>(() => new Set());
+  const channel = useRef<SyncChannel | null>(null);
+  const latest = useRef(session);
+  // The last session this tab sent or merged in; local changes are whatever differs from it.
+  const synced = useRef(session);
+  const leader = useRef(leaderId);
+
+  latest.current = session;
+  leader.current = leaderId;
+
+  useEffect(() => {
+    if (!hydrated) return;
+    synced.current = latest.current;
+
+    const addPeer = (id: string) => setPeers((prev) => (prev.has(id) ? prev : new Set(prev).add(id)));
+    const claim = () => {
+      if (leader.current === tabId) return;
+      setLeaderId(tabId);
+      channel.current?.post({ type: 'claim', from: tabId });
+    };
+    const receive = (remote: SessionState) => {
+      const local = latest.current;
+      const merged = mergeSessions(synced.current, local, remote);
+      // With unsent local changes, the merged session still has to go out to the other tabs.
+      synced.current = local === synced.current ? merged : remote;
+      if (merged === local) return;
+      latest.current = merged;
+      onMerge(merged);
+    };
+
+    const handleMessage = (message: SyncMessage) => {
+      if (message.from === tabId) return;
+      switch (message.type) {
+        case 'hello':
+          addPeer(message.from);
+          channel.current?.post({ type: 'here', from: tabId, session: latest.current, leader: leader.current === tabId });
+          break;
+        case 'here':
+          addPeer(message.from);
+          if (message.leader) setLeaderId(message.from);
+          receive(message.session);
+          break;
+        case 'session':
+          addPeer(message.from);
+          receive(message.session);
+          break;
+        case 'claim':
+          addPeer(message.from);
+          setLeaderId(message.from);
+          break;
+        case 'bye':
+          setPeers((prev) => {
+            const next = new Set(prev);
+            next.delete(message.from);
+            return next;
+          });
+          if (leader.current === message.from) {
+            setLeaderId(null);
+            if (document.visibilityState === 'visible') claim();
+          }
+          break;
+      }
+    };
+
+    channel.current = openSyncChannel(handleMessage);
+    channel.current?.post({ type: 'hello', from: tabId });
+    if (document.visibilityState === 'visible' && document.hasFocus()) claim();
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') claim();
+    };
+    const handlePageHide = () => channel.current?.post({ type: 'bye', from: tabId });
+    window.addEventListener('focus', claim);
+    window.addEventListener('pagehide', handlePageHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('focus', claim);
+      window.removeEventListener('pagehide', handlePageHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      channel.current?.close();
+      channel.current = null;
+    };
+    // `onMerge` is expected to be a stable state setter.
+  }, [hydrated, tabId]);
+
+  useEffect(() => {
+    if (!hydrated || session === synced.current) return;
+    const timer = window.setTimeout(() => {
+      const current = latest.current;
+      if (current === synced.current) return;
+      synced.current = current;
+      channel.current?.post({ type: 'session', from: tabId, session: current });
+    }, SYNC_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [hydrated, session, tabId]);
+
+  return { role: leaderId === null || leaderId === tabId ? 'leader' : 'follower', peers: peers.size };
+}
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, Workspace } from './types';
+import {
+  applyHistoryEntry,
+  createHistoryEntry,
+  createHistoryStack,
+  HistoryEntry,
+  HistoryStack,
+  loadHistory,
+  pushHistoryEntry,
+  saveHistory,
+  UndoSnapshot,
+} from './undoHistory';
+
+interface PendingChange {
+  label: string;
+  posted?: string[];
+  coalesceKey?: string;
+}
+
+export type RecordOptions = Omit<PendingChange, 'label'>;
+
+export interface UndoHistory {
+  stack: HistoryStack;
+  /** Labels the next state change so it is recorded; call right before `setState`. */
+  record: (label: string, options?: RecordOptions) => void;
+  /** Undoes the last `steps` entries and returns them, most recent first. */
+  undo: (steps?: number) => HistoryEntry[];
+  redo: (steps?: number) => HistoryEntry[];
+}
+
+/**
+ * Per-workspace undo/redo. Changes are recorded by diffing the workspace after a labelled
+ * update against the previous render, so unlabelled updates (loading, view state) never
+ * end up on the stack.
+ */
+export function useUndoHistory(
+  workspace: Workspace,
+  setState: (updater: (prev: AppState) => AppState) => void
+): UndoHistory {
+  const [history, setHistory] = useState<Record<string, HistoryStack>>(loadHistory);
+  const pending = useRef<PendingChange | null>(null);
+  const baseline = useRef<{ workspaceId: string; snapshot: UndoSnapshot }>({
+    workspaceId: workspace.id,
+    snapshot: toSnapshot(workspace),
+  });
+
+  useEffect(() => {
+    const previous = baseline.current;
+    const snapshot = toSnapshot(workspace);
+    baseline.current = { workspaceId: workspace.id, snapshot };
+    const change = pending.current;
+    if (!change || previous.workspaceId !== workspace.id) return;
+    const entry = createHistoryEntry(change.label, previous.snapshot, snapshot, change);
+    if (!entry) return;
+    setHistory((prev) => ({ ...prev, [workspace.id]: pushHistoryEntry(prev[workspace.id] ?? createHistoryStack(), entry) }));
+  }, [workspace.currentId, workspace.id, workspace.rows, workspace.templates]);
+
+  // A labelled update that changed nothing must not label the next unrelated one.
+  useEffect(() => {
+    pending.current = null;
+  });
+
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  const stack = history[workspace.id] ?? createHistoryStack();
+
+  const record = useCallback((label: string, options: RecordOptions = {}) => {
+    pending.current = { label, ...options };
+  }, []);
+
+  const undo = useCallback(
+    (steps = 1) => {
+      const entries = stack.past.slice(-steps).reverse();
+      if (!entries.length) return [];
+      pending.current = null;
+      setState((prev) => entries.reduce((state, entry) => applyHistoryEntry(state, entry, 'undo'), prev));
+      setHistory((prev) => ({
+        ...prev,
+        [workspace.id]: { past: stack.past.slice(0, -entries.length), future: [...stack.future, ...entries] },
+      }));
+      return entries;
+    },
+    [setState, stack, workspace.id]
+  );
+
+  const redo = useCallback(
+    (steps = 1) => {
+      const entries = stack.future.slice(-steps).reverse();
+      if (!entries.length) return [];
+      pending.current = null;
+      setState((prev) => entries.reduce((state, entry) => applyHistoryEntry(state, entry, 'redo'), prev));
+      setHistory((prev) => ({
+        ...prev,
+        [workspace.id]: { past: [...stack.past, ...entries], future: stack.future.slice(0, -entries.length) },
+      }));
+      return entries;
+    },
+    [setState, stack, workspace.id]
+  );
+
+  return { stack, record, undo, redo };
+}
+
+function toSnapshot(state: AppState): UndoSnapshot {
+  return { rows: state.rows, currentId: state.currentId, templates: state.templates };
+}
@@ -0,0 +1,102 @@
+import { createId } from './id';
+import { AppState, SessionState, Workspace } from './types';
+
+export const DEFAULT_WORKSPACE_NAME = 'My campaign';
+
+export function createWorkspace(name: string, state?: Partial<AppState>): Workspace {
+  return {
+    id: createId(),
+    name: name.trim() || DEFAULT_WORKSPACE_NAME,
+    archived: false,
+    createdAt: new Date().toISOString(),
+    rows: state?.rows ?? [],
+    currentId: state?.currentId ?? null,
+    filter: state?.filter ?? 'all',
+    search: state?.search ?? '',
+    templates: state?.templates ?? [],
+  };
+}
+
+export function getActiveWorkspace(session: SessionState): Workspace {
+  return session.workspaces.find((workspace) => workspace.id === session.activeWorkspaceId) ?? session.workspaces[0];
+}
+
+export function updateActiveWorkspace(session: SessionState, updater: (state: AppState) => AppState): SessionState {
+  const active = getActiveWorkspace(session);
+  return {
+    ...session,
+    workspaces: session.workspaces.map((workspace) =>
+      workspace.id === active.id ? { ...workspace, ...updater(workspace), id: workspace.id } : workspace
+    ),
+  };
+}
+
+export function addWorkspace(session: SessionState, name: string): SessionState {
+  const workspace = createWorkspace(name);
+  return { workspaces: [...session.workspaces, workspace], activeWorkspaceId: workspace.id };
+}
+
+export function switchWorkspace(session: SessionState, id: string): SessionState {
+  const target = session.workspaces.find((workspace) => workspace.id === id);
+  if (!target) return session;
+  return {
+    activeWorkspaceId: id,
+    workspaces: target.archived ? setArchived(session.workspaces, id, false) : session.workspaces,
+  };
+}
+
+export function renameWorkspace(session: SessionState, id: string, name: string): SessionState {
+  const trimmed = name.trim();
+  if (!trimmed) return session;
+  return {
+    ...session,
+    workspaces: session.workspaces.map((workspace) => (workspace.id === id ? { ...workspace, name: trimmed } : workspace)),
+  };
+}
+
+/** Copies rows with fresh IDs so the two workspaces never share row identity. */
+export function duplicateWorkspace(session: SessionState, id: string): SessionState {
+  const source = session.workspaces.find((workspace) => workspace.id === id);
+  if (!source) return session;
+  const idMap = new Map<string, string>();
+  const rows = source.rows.map((row) => {
+    const nextId = createId();
+    idMap.set(row.id, nextId);
+    return { ...row, id: nextId, history: [...row.history] };
+  });
+  const copy = createWorkspace(`${source.name} (copy)`, {
+    rows,
+    currentId: source.currentId ? idMap.get(source.currentId) ?? null : null,
+    filter: source.filter,
+    search: source.search,
+    templates: source.templates?.map((template) => ({ ...template })),
+  });
+  const index = session.workspaces.findIndex((workspace) => workspace.id === id);
+  const workspaces = [...session.workspaces];
+  workspaces.splice(index + 1, 0, copy);
+  return { workspaces, activeWorkspaceId: copy.id };
+}
+
+export function archiveWorkspace(session: SessionState, id: string, archived: boolean): SessionState {
+  const workspaces = setArchived(session.workspaces, id, archived);
+  if (!archived || session.activeWorkspaceId !== id) return { ...session, workspaces };
+  return ensureActive({ ...session, workspaces }, id);
+}
+
+export function deleteWorkspace(session: SessionState, id: string): SessionState {
+  const workspaces = session.workspaces.filter((workspace) => workspace.id !== id);
+  if (session.activeWorkspaceId !== id) return { ...session, workspaces };
+  return ensureActive({ ...session, workspaces }, id);
+}
+
+/** Moves away from `leavingId` to another open workspace, creating one if none is left. */
+function ensureActive(session: SessionState, leavingId: string): SessionState {
+  const next = session.workspaces.find((workspace) => workspace.id !== leavingId && !workspace.archived);
+  if (next) return { ...session, activeWorkspaceId: next.id };
+  const fresh = createWorkspace(DEFAULT_WORKSPACE_NAME);
+  return { workspaces: [...session.workspaces, fresh], activeWorkspaceId: fresh.id };
+}
+
+function setArchived(workspaces: Workspace[], id: string, archived: boolean): Workspace[] {
+  return workspaces.map((workspace) => (workspace.id === id ? { ...workspace, archived } : workspace));
+}
@@ -0,0 +1,60 @@
+/*
+ * Service worker template. `vite build` writes it to `dist/sw.js` with the two placeholders
+ * below replaced: a version derived from the content of every built file, and the app shell
+ * files to precache. Anything else is cached the first time it is fetched. A new build
+ * therefore installs as a new worker with its own cache, and waits until the page asks it
+ * to take over so an open tab never runs mixed versions.
+ */
+const CACHE_VERSION = __CACHE_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const CACHE_PREFIX = 'paste-happy-';
+const CACHE_NAME = `${CACHE_PREFIX}${CACHE_VERSION}`;
+const APP_SHELL_URL = '/index.html';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Every route is the single-page app, so navigations get the cached shell straight away
+  // instead of waiting on a slow connection. Updates arrive through a new worker.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match(APP_SHELL_URL, { cacheName: CACHE_NAME }).then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME, ignoreSearch: true }).then((cached) => cached || fetchAndCache(request))
+  );
+});
+
+function fetchAndCache(request) {
+  return fetch(request).then((response) => {
+    if (response.ok && response.type === 'basic') {
+      const copy = response.clone();
+      caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+    }
+    return response;
+  });
+}
@@ -0,0 +1,16 @@
+/** Just enough of `Storage` for tests: stored items are its own enumerable keys, like the real one. */
+export class MemoryStorage {
+  [key: string]: unknown;
+
+  getItem(key: string): string | null {
+    return Object.prototype.hasOwnProperty.call(this, key) ? String(this[key]) : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this[key] = String(value);
+  }
+
+  removeItem(key: string): void {
+    delete this[key];
+  }
+}
@@ -1,9 +1,22 @@
 import { Buffer } from 'node:buffer';
+import { createHash } from 'node:crypto';
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join, relative, resolve, sep } from 'node:path';
 import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SERVICE_WORKER_SOURCE = 'src/service-worker.js';
+const SERVICE_WORKER_FILE = 'sw.js';
+const MANIFEST_FILE = 'manifest.webmanifest';
+/** Precached on install; everything else in dist/ (the large SVG logos, the userscript) is cached when first fetched. */
+const APP_SHELL_FILES = ['index.html', MANIFEST_FILE, 'icon-192.png', 'icon-512.png'];
+/** Hashed bundles Vite emits when something is not inlined into index.html. */
+const HASHED_ASSET_PATTERN = /^assets\/.+\.(?:js|css)$/;
+/** Icon sizes the browser needs before it offers to install the app. */
+const REQUIRED_ICON_SIZES = ['192x192', '512x512'];
+
 export default defineConfig({
-  plugins: [react(), inlineBundlePlugin()],
+  plugins: [react(), inlineBundlePlugin(), serviceWorkerPlugin()],
   build: {
     cssCodeSplit: false,
     rollupOptions: {
@@ -64,6 +77,92 @@ function inlineBundlePlugin(): Plugin {
   };
 }
 
+/**
+ * Writes the service worker once the whole build, public files included, is on disk. The
+ * app is a single inlined `index.html` with no hashed file names, so the cache version is a
+ * hash of every output file instead; any change to the build yields a new worker. Only the
+ * app shell is precached, then the output is checked for what installing the app needs.
+ */
+function serviceWorkerPlugin(): Plugin {
+  let root = '';
+  let outDir = '';
+  return {
+    name: 'service-worker-plugin',
+    apply: 'build',
+    configResolved(config) {
+      root = config.root;
+      outDir = resolve(config.root, config.build.outDir);
+    },
+    closeBundle() {
+      const files = listFiles(outDir)
+        .filter((file) => file !== SERVICE_WORKER_FILE)
+        .sort();
+      const hash = createHash('sha256');
+      files.forEach((file) => {
+        hash.update(file);
+        hash.update(readFileSync(join(outDir, file)));
+      });
+      const urls = files
+        .filter((file) => APP_SHELL_FILES.includes(file) || HASHED_ASSET_PATTERN.test(file))
+        .map((file) => `/${file.split('/').map(encodeURIComponent).join('/')}`);
+      const source = readFileSync(resolve(root, SERVICE_WORKER_SOURCE), 'utf8')
+        .replace('__CACHE_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+        .replace('__PRECACHE_URLS__', JSON.stringify(urls));
+      writeFileSync(join(outDir, SERVICE_WORKER_FILE), source);
+
+      const problems = checkInstallable(outDir);
+      if (problems.length) {
+        throw new Error(`The build is not installable as an app:\n${problems.map((problem) => `- ${problem}`).join('\n')}`);
+      }
+    },
+  };
+}
+
+/**
+ * Problems that would stop the built app installing or working offline: a missing manifest,
+ * manifest icons at the required sizes or service worker, or a service worker that
+ * references files the build does not contain.
+ */
+function checkInstallable(outDir: string): string[] {
+  const problems: string[] = [];
+  const exists = (url: string) => existsSync(join(outDir, decodeURIComponent(url.replace(/^\//, ''))));
+
+  APP_SHELL_FILES.concat(SERVICE_WORKER_FILE).forEach((file) => {
+    if (!existsSync(join(outDir, file))) problems.push(`${file} is missing`);
+  });
+
+  if (existsSync(join(outDir, MANIFEST_FILE))) {
+    const manifest = JSON.parse(readFileSync(join(outDir, MANIFEST_FILE), 'utf8')) as {
+      icons?: { src: string; sizes?: string }[];
+    };
+    REQUIRED_ICON_SIZES.forEach((size) => {
+      const icon = manifest.icons?.find((item) => item.sizes?.split(/\s+/).includes(size));
+      if (!icon) problems.push(`${MANIFEST_FILE} has no ${size} icon`);
+      else if (!exists(icon.src)) problems.push(`${MANIFEST_FILE} icon ${icon.src} is missing`);
+    });
+  }
+
+  if (existsSync(join(outDir, SERVICE_WORKER_FILE))) {
+    const worker = readFileSync(join(outDir, SERVICE_WORKER_FILE), 'utf8');
+    const precache = /const PRECACHE_URLS = (\[.*\]);/.exec(worker);
+    const shell = /const APP_SHELL_URL = '([^']+)';/.exec(worker);
+    if (!precache) problems.push(`${SERVICE_WORKER_FILE} has no precache list`);
+    const urls = [...(precache ? (JSON.parse(precache[1]) as string[]) : []), ...(shell ? [shell[1]] : [])];
+    urls.forEach((url) => {
+      if (!exists(url)) problems.push(`${SERVICE_WORKER_FILE} references ${url}, which is not in the build`);
+    });
+  }
+
+  return problems;
+}
+
+function listFiles(dir: string, base = dir): string[] {
+  return readdirSync(dir).flatMap((name) => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path, base) : [relative(base, path).split(sep).join('/')];
+  });
+}
+
 function escapeRegExp(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }